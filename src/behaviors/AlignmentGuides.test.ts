@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { DragSession, ModifierContext } from '../types/index.js';
+import { AlignmentGuides } from './AlignmentGuides.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+
+function place(element: HTMLElement, x: number, y: number, width: number, height: number): void {
+  element.getBoundingClientRect = () => new DOMRect(x, y, width, height);
+}
+
+function session(id: string, element: HTMLElement): DragSession {
+  return {
+    id,
+    element,
+    elements: [element],
+    origin: { x: 0, y: 0 },
+    current: { x: 0, y: 0 },
+    delta: { x: 0, y: 0 },
+    dropZone: null,
+    phase: 'dragging',
+  } as unknown as DragSession;
+}
+
+// Ghost held by its top-left corner
+function context(drag: DragSession): ModifierContext {
+  return {
+    session: drag,
+    pointer: { x: 0, y: 0 },
+    offset: { x: 0, y: 0 },
+    size: { width: 50, height: 50 },
+  };
+}
+
+function guides(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>('.snap-alignment-guide')).filter(
+    (line) => line.style.display !== 'none'
+  );
+}
+
+describe('AlignmentGuides', () => {
+  let a: HTMLElement;
+  let b: HTMLElement;
+  let behavior: AlignmentGuides;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="a" data-draggable></div>
+      <div id="b" data-draggable></div>
+      <div id="target" data-droppable></div>`;
+    a = document.getElementById('a')!;
+    b = document.getElementById('b')!;
+    place(a, 0, 0, 50, 50);
+    place(b, 0, 300, 50, 80);
+    place(document.getElementById('target')!, 200, 100, 80, 50);
+    boundsCache.invalidateAll();
+    behavior = new AlignmentGuides({ centers: false });
+  });
+
+  afterEach(() => {
+    behavior.destroy();
+  });
+
+  it('snaps to a nearby edge and draws a guide', () => {
+    const drag = session('one', a);
+    behavior.onDragStart(drag);
+
+    expect(behavior.modifyPosition({ x: 203, y: 500 }, context(drag))).toEqual({ x: 200, y: 500 });
+    expect(guides()).toHaveLength(1);
+
+    behavior.onDragEnd(drag);
+    expect(guides()).toHaveLength(0);
+  });
+
+  it('keeps targets and guides apart for overlapping drags', () => {
+    const first = session('one', a);
+    const second = session('two', b);
+    behavior.onDragStart(first);
+    behavior.onDragStart(second);
+
+    // The first drag aligns with b, which the second drag is carrying
+    expect(behavior.modifyPosition({ x: 400, y: 302 }, context(first))).toEqual({ x: 400, y: 300 });
+    expect(behavior.modifyPosition({ x: 198, y: 600 }, context(second))).toEqual({ x: 200, y: 600 });
+    expect(guides()).toHaveLength(2);
+
+    // Ending one drag leaves the other's guide in place
+    behavior.onDragEnd(second);
+    expect(guides()).toHaveLength(1);
+    expect(guides()[0].dataset.orientation).toBe('horizontal');
+
+    behavior.onDragEnd(first);
+    expect(guides()).toHaveLength(0);
+  });
+
+  it('removes every drag\'s guides on destroy', () => {
+    const first = session('one', a);
+    const second = session('two', b);
+    behavior.onDragStart(first);
+    behavior.onDragStart(second);
+    behavior.modifyPosition({ x: 203, y: 500 }, context(first));
+    behavior.modifyPosition({ x: 198, y: 600 }, context(second));
+
+    behavior.destroy();
+
+    expect(document.querySelectorAll('.snap-alignment-guide')).toHaveLength(0);
+  });
+});
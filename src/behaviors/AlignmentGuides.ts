@@ -0,0 +1,273 @@
+/**
+ * AlignmentGuides behavior - magnetic snapping to other elements' edges and
+ * centers, with guide lines drawn while aligned
+ */
+import type { Behavior, DragSession, Point, ModifierContext } from '../types/index.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+
+export interface AlignmentGuidesOptions {
+  /** Distance in px at which the ghost snaps to an alignment (default: 5) */
+  tolerance?: number;
+  /** Elements to align with: a selector queried in the dragged element's root, or a function (default: draggables and drop zones) */
+  targets?: string | ((session: DragSession) => Iterable<Element>);
+  /** Align centers as well as edges (default: true) */
+  centers?: boolean;
+  /** Draw guide lines for active alignments (default: true) */
+  showGuides?: boolean;
+  /** Class added to guide lines (default: 'snap-alignment-guide') */
+  guideClass?: string;
+  /** Guide line color (default: '#ff3d7f') */
+  guideColor?: string;
+  /** Modifier pipeline order (default: 0, before grid snapping) */
+  priority?: number;
+}
+
+type Orientation = 'vertical' | 'horizontal';
+
+interface Guide {
+  orientation: Orientation;
+  /** x for vertical lines, y for horizontal ones */
+  position: number;
+  start: number;
+  end: number;
+}
+
+// One drag's alignment targets and the guide lines it draws
+interface GuidedDrag {
+  targets: Element[];
+  guides: HTMLElement[];
+}
+
+// Guide positions closer than this count as the same line
+const EPSILON = 0.5;
+
+export class AlignmentGuides implements Behavior {
+  name = 'alignment-guides';
+  priority: number;
+
+  private _options: Required<Omit<AlignmentGuidesOptions, 'priority'>>;
+  // Keyed by session id, multiTouch drags run side by side
+  private _drags = new Map<string, GuidedDrag>();
+
+  constructor(options: AlignmentGuidesOptions = {}) {
+    this._options = {
+      tolerance: options.tolerance ?? 5,
+      targets: options.targets ?? '[data-draggable], [data-droppable]',
+      centers: options.centers ?? true,
+      showGuides: options.showGuides ?? true,
+      guideClass: options.guideClass ?? 'snap-alignment-guide',
+      guideColor: options.guideColor ?? '#ff3d7f',
+    };
+    this.priority = options.priority ?? 0;
+  }
+
+  onDragStart(session: DragSession): void {
+    this._drags.set(session.id, { targets: this._collectTargets(session), guides: [] });
+  }
+
+  /**
+   * Pull the ghost onto the nearest edge or center alignment on each axis
+   */
+  modifyPosition(position: Point, context: ModifierContext): Point {
+    const drag = this._drags.get(context.session.id);
+    if (!drag) return position;
+
+    const { offset, size } = context;
+    const left = position.x - offset.x;
+    const top = position.y - offset.y;
+    const rects = this._getTargetRects(drag);
+
+    const dx = this._nearest(
+      this._lines(left, size.width),
+      rects.map((rect) => this._lines(rect.left, rect.width))
+    );
+    const dy = this._nearest(
+      this._lines(top, size.height),
+      rects.map((rect) => this._lines(rect.top, rect.height))
+    );
+
+    const snapped = { x: position.x + dx, y: position.y + dy };
+
+    if (this._options.showGuides) {
+      this._renderGuides(
+        drag,
+        this._findGuides(
+          { left: left + dx, top: top + dy, width: size.width, height: size.height },
+          rects
+        )
+      );
+    }
+
+    return snapped;
+  }
+
+  onDragEnd(session: DragSession): void {
+    const drag = this._drags.get(session.id);
+    if (!drag) return;
+
+    this._removeGuides(drag);
+    this._drags.delete(session.id);
+  }
+
+  destroy(): void {
+    for (const drag of this._drags.values()) {
+      this._removeGuides(drag);
+    }
+    this._drags.clear();
+  }
+
+  private _collectTargets(session: DragSession): Element[] {
+    const { targets } = this._options;
+    let candidates: Iterable<Element>;
+
+    if (typeof targets === 'function') {
+      candidates = targets(session);
+    } else {
+      const root = session.element.getRootNode() as Document | ShadowRoot;
+      candidates = root.querySelectorAll(targets);
+    }
+
+    // Skip the dragged items, anything inside them and the ghost
+    return Array.from(candidates).filter(
+      (el) =>
+        !session.elements.some((dragged) => dragged.contains(el)) &&
+        !el.closest('.snap-ghost')
+    );
+  }
+
+  private _getTargetRects(drag: GuidedDrag): DOMRect[] {
+    const rects: DOMRect[] = [];
+    for (const target of drag.targets) {
+      const rect = boundsCache.get(target);
+      // Hidden or detached elements have nothing to align with
+      if (rect.width > 0 || rect.height > 0) {
+        rects.push(rect);
+      }
+    }
+    return rects;
+  }
+
+  /**
+   * Start, center and end of a span along one axis
+   */
+  private _lines(start: number, length: number): number[] {
+    return this._options.centers
+      ? [start, start + length / 2, start + length]
+      : [start, start + length];
+  }
+
+  /**
+   * Smallest offset that lines up any dragged line with any target line
+   * within tolerance, or 0
+   */
+  private _nearest(own: number[], targets: number[][]): number {
+    let best = 0;
+    let bestDistance = this._options.tolerance;
+
+    for (const lines of targets) {
+      for (const line of lines) {
+        for (const ownLine of own) {
+          const delta = line - ownLine;
+          if (Math.abs(delta) <= bestDistance) {
+            best = delta;
+            bestDistance = Math.abs(delta);
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Guide lines for every alignment of the snapped ghost, each spanning
+   * the ghost and all elements sharing that line
+   */
+  private _findGuides(
+    ghost: { left: number; top: number; width: number; height: number },
+    rects: DOMRect[]
+  ): Guide[] {
+    const guides: Guide[] = [];
+    const ghostRight = ghost.left + ghost.width;
+    const ghostBottom = ghost.top + ghost.height;
+
+    for (const x of this._lines(ghost.left, ghost.width)) {
+      let start = ghost.top;
+      let end = ghostBottom;
+      let aligned = false;
+
+      for (const rect of rects) {
+        if (this._lines(rect.left, rect.width).some((line) => Math.abs(line - x) <= EPSILON)) {
+          aligned = true;
+          start = Math.min(start, rect.top);
+          end = Math.max(end, rect.bottom);
+        }
+      }
+
+      if (aligned) guides.push({ orientation: 'vertical', position: x, start, end });
+    }
+
+    for (const y of this._lines(ghost.top, ghost.height)) {
+      let start = ghost.left;
+      let end = ghostRight;
+      let aligned = false;
+
+      for (const rect of rects) {
+        if (this._lines(rect.top, rect.height).some((line) => Math.abs(line - y) <= EPSILON)) {
+          aligned = true;
+          start = Math.min(start, rect.left);
+          end = Math.max(end, rect.right);
+        }
+      }
+
+      if (aligned) guides.push({ orientation: 'horizontal', position: y, start, end });
+    }
+
+    return guides;
+  }
+
+  private _renderGuides(drag: GuidedDrag, guides: Guide[]): void {
+    // Reuse line elements between moves, hide the spare ones
+    while (drag.guides.length < guides.length) {
+      const line = document.createElement('div');
+      line.className = this._options.guideClass;
+      line.style.cssText = `
+        position: fixed;
+        top: 0;
+        left: 0;
+        pointer-events: none;
+        z-index: 10000;
+        background: ${this._options.guideColor};
+      `;
+      document.body.appendChild(line);
+      drag.guides.push(line);
+    }
+
+    drag.guides.forEach((line, i) => {
+      const guide = guides[i];
+      if (!guide) {
+        line.style.display = 'none';
+        return;
+      }
+
+      line.style.display = '';
+      line.dataset.orientation = guide.orientation;
+      if (guide.orientation === 'vertical') {
+        line.style.width = '1px';
+        line.style.height = `${guide.end - guide.start}px`;
+        line.style.transform = `translate(${guide.position}px, ${guide.start}px)`;
+      } else {
+        line.style.width = `${guide.end - guide.start}px`;
+        line.style.height = '1px';
+        line.style.transform = `translate(${guide.start}px, ${guide.position}px)`;
+      }
+    });
+  }
+
+  private _removeGuides(drag: GuidedDrag): void {
+    for (const line of drag.guides) {
+      line.remove();
+    }
+    drag.guides = [];
+  }
+}
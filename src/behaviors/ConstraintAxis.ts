@@ -3,7 +3,13 @@
  * Note: Basic axis constraint is handled in DragEngine via options.axis
  * This behavior adds additional constraint features like bounds
  */
-import type { Behavior, DragSession, Axis, Point } from '../types/index.js';
+import type {
+  Behavior,
+  DragSession,
+  Axis,
+  Point,
+  ModifierContext,
+} from '../types/index.js';
 
 export interface ConstraintOptions {
   axis?: Axis;
@@ -16,10 +22,13 @@ export interface ConstraintOptions {
   };
   /** Constrain to parent element bounds */
   containWithinParent?: boolean;
+  /** Modifier pipeline order (default: 200, after grid snapping) */
+  priority?: number;
 }
 
 export class ConstraintAxis implements Behavior {
   name = 'constraint-axis';
+  priority: number;
 
   private _options: ConstraintOptions;
   private _bounds: {
@@ -31,6 +40,7 @@ export class ConstraintAxis implements Behavior {
 
   constructor(options: ConstraintOptions = {}) {
     this._options = options;
+    this.priority = options.priority ?? 200;
   }
 
   onDragStart(session: DragSession): void {
@@ -46,9 +56,17 @@ export class ConstraintAxis implements Behavior {
     }
   }
 
-  onDragMove(_session: DragSession): void {
-    // Constraint is applied in DragEngine
-    // This behavior provides bounds calculation
+  /**
+   * Keep the dragged element's top-left corner inside the bounds
+   */
+  modifyPosition(position: Point, context: ModifierContext): Point {
+    const { offset, session } = context;
+    const topLeft = this.constrain(
+      { x: position.x - offset.x, y: position.y - offset.y },
+      { x: session.origin.x - offset.x, y: session.origin.y - offset.y }
+    );
+
+    return { x: topLeft.x + offset.x, y: topLeft.y + offset.y };
   }
 
   onDragEnd(): void {
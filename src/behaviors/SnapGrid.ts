@@ -1,25 +1,29 @@
 /**
  * SnapGrid behavior - snaps drag position to a grid
- * Note: This is handled in DragEngine via options.grid
- * This behavior provides additional grid-related features
+ * Note: Basic snapping is handled in DragEngine via options.grid
+ * This behavior adds threshold snapping and visual guides
  */
-import type { Behavior, DragSession, GridOptions } from '../types/index.js';
+import type { Behavior, DragSession, GridOptions, Point } from '../types/index.js';
 
 export interface SnapGridOptions extends GridOptions {
   /** Only snap when within threshold of grid line */
   threshold?: number;
   /** Show visual grid guides */
   showGuides?: boolean;
+  /** Modifier pipeline order (default: 100) */
+  priority?: number;
 }
 
 export class SnapGrid implements Behavior {
   name = 'snap-grid';
+  priority: number;
 
   private _options: SnapGridOptions;
   private _guideContainer: HTMLElement | null = null;
 
   constructor(options: SnapGridOptions) {
     this._options = options;
+    this.priority = options.priority ?? 100;
   }
 
   onDragStart(session: DragSession): void {
@@ -28,9 +32,14 @@ export class SnapGrid implements Behavior {
     }
   }
 
-  onDragMove(_session: DragSession): void {
-    // Grid snapping is handled by DragEngine
-    // This behavior could add additional visual feedback
+  /**
+   * Snap the drag position, only near grid lines when a threshold is set
+   */
+  modifyPosition(position: Point): Point {
+    if (this._options.threshold !== undefined) {
+      return this.snapWithThreshold(position.x, position.y);
+    }
+    return this.snap(position.x, position.y);
   }
 
   onDragEnd(): void {
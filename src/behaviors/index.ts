@@ -1,3 +1,4 @@
 export { AutoScroll } from './AutoScroll.js';
 export { SnapGrid, type SnapGridOptions } from './SnapGrid.js';
 export { ConstraintAxis, type ConstraintOptions } from './ConstraintAxis.js';
+export { AlignmentGuides, type AlignmentGuidesOptions } from './AlignmentGuides.js';
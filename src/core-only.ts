@@ -1,5 +1,5 @@
 /**
- * Snap Core - Minimal drag and drop (~4KB gzipped)
+ * Snap Core - Minimal drag and drop (~12KB gzipped)
  * Import plugins separately if needed
  */
 
@@ -7,6 +7,22 @@
 export { Snap, default } from './core/Snap.js';
 export { DragState } from './core/DragState.js';
 export { DropZone, DropZoneManager } from './core/DropZone.js';
+export {
+  registerFeature,
+  registerInput,
+  registerCollision,
+  registerExtension,
+  type FeatureOption,
+  type FeatureFactory,
+  type InputOption,
+  type InputFactory,
+  type Input,
+  type InputHost,
+  type DragRelay,
+  type Extensions,
+  type ExtensionOption,
+} from './core/Features.js';
+export { pointerWithin } from './core/Collision.js';
 
 // Types
 export type {
@@ -23,8 +39,23 @@ export type {
   DropEvent,
   DropZoneEnterEvent,
   DropZoneLeaveEvent,
+  SortEvent,
+  SelectionChangeEvent,
   SnapOptions,
   SnapInstance,
   ItemOptions,
   DropZoneOptions,
+  KeyboardOptions,
+  Announcements,
+  MultiSelectOptions,
+  DropAnimationOptions,
+  CollisionStrategy,
+  CollisionDetector,
+  CollisionArgs,
+  CollisionZone,
+  BridgeOptions,
+  NativeDragOptions,
+  ActivationOptions,
+  PointerActivation,
+  NativeDropEvent,
 } from './types/index.js';
@@ -0,0 +1,146 @@
+/**
+ * Announcer writes drag lifecycle messages to an aria-live region
+ * so screen reader users get feedback while dragging
+ */
+import type { Announcements, Plugin, SnapInstance, Unsubscribe } from '../types/index.js';
+
+/**
+ * Human readable label for an element (aria-label, then text content)
+ */
+export function describeElement(element: HTMLElement): string {
+  const label = element.getAttribute('aria-label');
+  if (label) return label;
+
+  const text = element.textContent?.replace(/\s+/g, ' ').trim();
+  if (text) return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+
+  return 'item';
+}
+
+// Default English messages
+export const defaultAnnouncements: Required<Announcements> = {
+  dragStart: (e) => `Picked up ${describeElement(e.element)}.`,
+  dropZoneEnter: (e) =>
+    `${describeElement(e.element)} is over ${describeElement(e.dropZone)}.`,
+  dropZoneLeave: (e) =>
+    `${describeElement(e.element)} is no longer over ${describeElement(e.dropZone)}.`,
+  sort: (e) =>
+    `${describeElement(e.element)} moved to position ${e.index + 1}.`,
+  drop: (e) =>
+    e.insertionIndex !== undefined && e.insertionIndex >= 0
+      ? `Dropped ${describeElement(e.element)} at position ${e.insertionIndex + 1}.`
+      : `Dropped ${describeElement(e.element)} into ${describeElement(e.dropZone)}.`,
+  dragEnd: (e) => `Dropped ${describeElement(e.element)}.`,
+  cancel: (e) =>
+    `Drag cancelled. ${describeElement(e.element)} returned to its starting position.`,
+};
+
+export class Announcer implements Plugin {
+  name = 'announcer';
+
+  private _announcements: Announcements;
+  private _region: HTMLElement | null = null;
+  private _lastMessage = '';
+  private _unsubscribers: Unsubscribe[] = [];
+
+  constructor(announcements: Announcements = {}) {
+    this._announcements = announcements;
+  }
+
+  init(snap: SnapInstance): void {
+    // Drags that end without a drop zone still get a drop message
+    let dropped = false;
+
+    this._unsubscribers.push(
+      snap.on('dragstart', (e) => {
+        dropped = false;
+        this.announce(this._message('dragStart', e));
+      }),
+      snap.on('dropzoneenter', (e) => {
+        this.announce(this._message('dropZoneEnter', e));
+      }),
+      snap.on('dropzoneleave', (e) => {
+        this.announce(this._message('dropZoneLeave', e));
+      }),
+      snap.on('sort', (e) => {
+        this.announce(this._message('sort', e));
+      }),
+      snap.on('drop', (e) => {
+        dropped = true;
+        this.announce(this._message('drop', e));
+      }),
+      snap.on('dragend', (e) => {
+        if (e.cancelled) {
+          this.announce(this._message('cancel', e));
+        } else if (!dropped) {
+          this.announce(this._message('dragEnd', e));
+        }
+      })
+    );
+  }
+
+  /**
+   * Announce a message to assistive technology
+   */
+  announce(message: string | undefined): void {
+    if (!message) return;
+
+    const region = this._region ?? this._createRegion();
+
+    // Screen readers skip unchanged content, so vary repeated messages
+    const text = message === this._lastMessage ? `${message} ` : message;
+    this._lastMessage = text;
+    region.textContent = text;
+  }
+
+  /**
+   * Message for an event, from the overrides or the defaults
+   */
+  private _message<K extends keyof Announcements>(
+    key: K,
+    event: Parameters<Required<Announcements>[K]>[0]
+  ): string | undefined {
+    const format = (this._announcements[key] ?? defaultAnnouncements[key]) as (
+      e: typeof event
+    ) => string | undefined;
+    return format(event);
+  }
+
+  private _createRegion(): HTMLElement {
+    const region = document.createElement('div');
+    region.setAttribute('aria-live', 'assertive');
+    region.setAttribute('aria-atomic', 'true');
+    region.className = 'snap-announcer';
+
+    // Visually hidden but still read by screen readers
+    region.style.cssText = `
+      position: fixed;
+      width: 1px;
+      height: 1px;
+      margin: -1px;
+      padding: 0;
+      border: 0;
+      overflow: hidden;
+      clip: rect(0 0 0 0);
+      clip-path: inset(100%);
+      white-space: nowrap;
+    `;
+
+    document.body.appendChild(region);
+    this._region = region;
+    return region;
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(): void {
+    for (const unsub of this._unsubscribers) {
+      unsub();
+    }
+    this._unsubscribers = [];
+    this._region?.remove();
+    this._region = null;
+    this._lastMessage = '';
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import type { CollisionZone } from '../types/index.js';
+import {
+  pointerWithin,
+  rectIntersection,
+  closestCenter,
+  closestCorners,
+  largestOverlap,
+  getCollisionDetector,
+  isOverlapStrategy,
+} from './Collision.js';
+import { registerCollision } from './Features.js';
+
+function zone(x: number, y: number, width: number, height: number, parent?: HTMLElement): CollisionZone {
+  const element = document.createElement('div');
+  (parent ?? document.body).appendChild(element);
+  return { element, rect: new DOMRect(x, y, width, height) };
+}
+
+describe('pointerWithin', () => {
+  it('returns zones under the pointer, innermost first', () => {
+    const outer = zone(0, 0, 400, 400);
+    const inner = zone(50, 50, 100, 100, outer.element);
+    const elsewhere = zone(500, 0, 100, 100);
+
+    const result = pointerWithin({
+      position: { x: 75, y: 75 },
+      dragRect: null,
+      dropZones: [outer, inner, elsewhere],
+    });
+
+    expect(result).toEqual([inner.element, outer.element]);
+  });
+
+  it('puts the smaller of two overlapping siblings first', () => {
+    const big = zone(0, 0, 300, 300);
+    const small = zone(100, 100, 50, 50);
+
+    const result = pointerWithin({
+      position: { x: 120, y: 120 },
+      dragRect: null,
+      dropZones: [big, small],
+    });
+
+    expect(result).toEqual([small.element, big.element]);
+  });
+});
+
+describe('rectIntersection', () => {
+  it('returns zones the dragged rect touches', () => {
+    const left = zone(0, 0, 100, 100);
+    const right = zone(200, 0, 100, 100);
+    const far = zone(600, 0, 100, 100);
+
+    const result = rectIntersection({
+      position: { x: 150, y: 50 },
+      dragRect: new DOMRect(90, 20, 120, 40),
+      dropZones: [left, right, far],
+    });
+
+    expect(result).toHaveLength(2);
+    expect(result).toContain(left.element);
+    expect(result).toContain(right.element);
+  });
+
+  it('uses the pointer as a point without a ghost', () => {
+    const left = zone(0, 0, 100, 100);
+    const right = zone(200, 0, 100, 100);
+
+    const result = rectIntersection({
+      position: { x: 250, y: 50 },
+      dragRect: null,
+      dropZones: [left, right],
+    });
+
+    expect(result).toEqual([right.element]);
+  });
+});
+
+describe('closestCenter', () => {
+  it('orders every zone by distance between centers', () => {
+    const near = zone(100, 0, 100, 100);
+    const far = zone(400, 0, 100, 100);
+    const nearest = zone(0, 0, 100, 100);
+
+    const result = closestCenter({
+      position: { x: 0, y: 0 },
+      dragRect: new DOMRect(10, 10, 50, 50),
+      dropZones: [far, near, nearest],
+    });
+
+    expect(result).toEqual([nearest.element, near.element, far.element]);
+  });
+});
+
+describe('closestCorners', () => {
+  it('prefers the zone whose corners line up with the dragged rect', () => {
+    // Same center, but only one has the dragged rect's size
+    const sameSize = zone(100, 100, 100, 100);
+    const larger = zone(50, 50, 200, 200);
+
+    const result = closestCorners({
+      position: { x: 150, y: 150 },
+      dragRect: new DOMRect(105, 105, 100, 100),
+      dropZones: [larger, sameSize],
+    });
+
+    expect(result).toEqual([sameSize.element, larger.element]);
+  });
+});
+
+describe('largestOverlap', () => {
+  it('orders overlapping zones by shared area', () => {
+    const little = zone(0, 0, 100, 100);
+    const most = zone(100, 0, 100, 100);
+    const none = zone(400, 0, 100, 100);
+
+    const result = largestOverlap({
+      position: { x: 140, y: 50 },
+      dragRect: new DOMRect(80, 0, 100, 100),
+      dropZones: [little, most, none],
+    });
+
+    expect(result).toEqual([most.element, little.element]);
+  });
+
+  it('falls back to pointerWithin without a ghost', () => {
+    const a = zone(0, 0, 100, 100);
+    const b = zone(200, 0, 100, 100);
+
+    const result = largestOverlap({
+      position: { x: 250, y: 50 },
+      dragRect: null,
+      dropZones: [a, b],
+    });
+
+    expect(result).toEqual([b.element]);
+  });
+});
+
+describe('getCollisionDetector', () => {
+  it('resolves registered names, custom functions and the default', () => {
+    const custom = () => [];
+    registerCollision('closest-center', closestCenter);
+
+    expect(getCollisionDetector('closest-center')).toBe(closestCenter);
+    expect(getCollisionDetector(custom)).toBe(custom);
+    expect(getCollisionDetector(undefined)).toBe(pointerWithin);
+  });
+
+  it('falls back to pointer-within for unregistered names', () => {
+    expect(getCollisionDetector('closest-corners')).toBe(pointerWithin);
+  });
+
+  it('marks only strategies limited to overlapping zones', () => {
+    expect(isOverlapStrategy(undefined)).toBe(true);
+    expect(isOverlapStrategy('rect-intersection')).toBe(true);
+    expect(isOverlapStrategy('closest-corners')).toBe(false);
+    expect(isOverlapStrategy(() => [])).toBe(false);
+  });
+});
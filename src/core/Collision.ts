@@ -0,0 +1,138 @@
+/**
+ * Collision detection strategies for resolving the drop zone under a drag
+ * Each strategy returns the colliding zones ordered best match first
+ */
+import type {
+  CollisionArgs,
+  CollisionDetector,
+  CollisionStrategy,
+  CollisionZone,
+} from '../types/index.js';
+import { getCollision } from './Features.js';
+import { pointInRect, rectsIntersect, rectCenter, distance } from '../utils/BoundsCache.js';
+
+function area(rect: DOMRect): number {
+  return rect.width * rect.height;
+}
+
+function overlapArea(a: DOMRect, b: DOMRect): number {
+  const width = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  const height = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Order nested zones innermost first, unrelated zones smallest first
+ */
+function byInnermost(a: CollisionZone, b: CollisionZone): number {
+  if (a.element.contains(b.element)) return 1;
+  if (b.element.contains(a.element)) return -1;
+  return area(a.rect) - area(b.rect);
+}
+
+/**
+ * Rect used for rect-based strategies (the ghost, or the pointer as a point)
+ */
+function getDragRect({ position, dragRect }: CollisionArgs): DOMRect {
+  return dragRect ?? new DOMRect(position.x, position.y, 0, 0);
+}
+
+/**
+ * Zones containing the pointer, innermost first
+ */
+export const pointerWithin: CollisionDetector = ({ position, dropZones }) =>
+  dropZones
+    .filter((zone) => pointInRect(position.x, position.y, zone.rect))
+    .sort(byInnermost)
+    .map((zone) => zone.element);
+
+/**
+ * Zones intersecting the dragged rect, innermost first
+ */
+export const rectIntersection: CollisionDetector = (args) => {
+  const dragRect = getDragRect(args);
+
+  return args.dropZones
+    .filter((zone) => rectsIntersect(dragRect, zone.rect))
+    .sort(byInnermost)
+    .map((zone) => zone.element);
+};
+
+/**
+ * All zones, nearest center to the dragged rect's center first
+ */
+export const closestCenter: CollisionDetector = (args) => {
+  const center = rectCenter(getDragRect(args));
+
+  return args.dropZones
+    .map((zone) => {
+      const zoneCenter = rectCenter(zone.rect);
+      return {
+        element: zone.element,
+        score: distance(center.x, center.y, zoneCenter.x, zoneCenter.y),
+      };
+    })
+    .sort((a, b) => a.score - b.score)
+    .map((entry) => entry.element);
+};
+
+/**
+ * All zones, smallest summed distance between matching corners first
+ */
+export const closestCorners: CollisionDetector = (args) => {
+  const dragRect = getDragRect(args);
+
+  return args.dropZones
+    .map(({ element, rect }) => ({
+      element,
+      score:
+        distance(dragRect.left, dragRect.top, rect.left, rect.top) +
+        distance(dragRect.right, dragRect.top, rect.right, rect.top) +
+        distance(dragRect.left, dragRect.bottom, rect.left, rect.bottom) +
+        distance(dragRect.right, dragRect.bottom, rect.right, rect.bottom),
+    }))
+    .sort((a, b) => a.score - b.score)
+    .map((entry) => entry.element);
+};
+
+/**
+ * Zones overlapping the dragged rect, largest overlap first
+ * Falls back to pointer-within when dragging a point (no ghost)
+ */
+export const largestOverlap: CollisionDetector = (args) => {
+  if (!args.dragRect) return pointerWithin(args);
+
+  const dragRect = args.dragRect;
+
+  return args.dropZones
+    .map((zone) => ({ zone, overlap: overlapArea(dragRect, zone.rect) }))
+    .filter((entry) => entry.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || byInnermost(a.zone, b.zone))
+    .map((entry) => entry.zone.element);
+};
+
+/**
+ * Check if a strategy only returns zones overlapping the pointer or the
+ * dragged rect, so zones elsewhere can be skipped before it runs
+ */
+export function isOverlapStrategy(
+  collision: CollisionStrategy | CollisionDetector | undefined
+): boolean {
+  return (
+    collision === undefined ||
+    collision === 'pointer-within' ||
+    collision === 'rect-intersection' ||
+    collision === 'largest-overlap'
+  );
+}
+
+/**
+ * Resolve a strategy name or custom detector (default: pointer-within).
+ * Strategies besides pointer-within are looked up in the feature registry.
+ */
+export function getCollisionDetector(
+  collision: CollisionStrategy | CollisionDetector | undefined
+): CollisionDetector {
+  if (typeof collision === 'function') return collision;
+  return (collision && getCollision(collision)) ?? pointerWithin;
+}
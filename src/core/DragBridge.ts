@@ -0,0 +1,228 @@
+/**
+ * Drag bridge - carries a drag from this document into a same-origin iframe
+ * or popup window whose Snap instance has the bridge option enabled
+ */
+import type { BridgeOptions, DataTransfer, DragSession, Point } from '../types/index.js';
+import type { DragRelay } from './Features.js';
+import { BRIDGE_EVENT, type BridgeMessage } from '../sensors/BridgeSensor.js';
+import { pointInRect } from '../utils/BoundsCache.js';
+
+// Document under the pointer, with the pointer in its viewport
+interface BridgeTarget {
+  window: Window;
+  position: Point;
+  /** Destination CSS px per source CSS px */
+  scale: number;
+}
+
+export class DragBridge implements DragRelay {
+  private _document: Document;
+  private _options: BridgeOptions;
+  /** Container of the Snap instance that has the drag */
+  private _receiver: Element | null = null;
+  private _sessionId = '';
+  /** The session's data, serialized the first time a container needs it */
+  private _data: { id: string; value: Record<string, unknown> } | null = null;
+
+  constructor(document: Document, options: BridgeOptions) {
+    this._document = document;
+    this._options = options;
+  }
+
+  /**
+   * Check if a bridged document currently has the drag
+   */
+  get isRemote(): boolean {
+    return this._receiver !== null;
+  }
+
+  /**
+   * Forward a move to the document under the pointer.
+   * Returns true while that document has the drag.
+   */
+  move(
+    session: DragSession,
+    pointer: Point,
+    offset: Point,
+    size: { width: number; height: number }
+  ): boolean {
+    const target = this._findTarget(pointer);
+    const element = target && elementFromPoint(target.window.document, target.position);
+    if (!target || !element) {
+      this.leave();
+      return false;
+    }
+
+    // Only the instance whose container is under the pointer takes it
+    const { scale } = target;
+    const message: BridgeMessage = {
+      type: 'move',
+      id: session.id,
+      position: target.position,
+      start: () => ({
+        element: session.element,
+        data: this._serialize(session),
+        offset: { x: offset.x / scale, y: offset.y / scale },
+        size: { width: size.width / scale, height: size.height / scale },
+      }),
+    };
+    this._sessionId = session.id;
+    this._send(element, message);
+
+    const receiver = message.receiver ?? null;
+    if (receiver !== this._receiver) {
+      this.leave();
+      this._receiver = receiver;
+    }
+    return receiver !== null;
+  }
+
+  /**
+   * Drop into the bridged document, returns false if none has the drag
+   */
+  drop(pointer: Point): boolean {
+    const receiver = this._receiver;
+    if (!receiver) return false;
+
+    const position = this._findTarget(pointer)?.position ?? pointer;
+    this._receiver = null;
+    this._send(receiver, { type: 'drop', id: this._sessionId, position });
+    return true;
+  }
+
+  /**
+   * Take the drag back from the bridged document
+   */
+  leave(): void {
+    const receiver = this._receiver;
+    if (!receiver) return;
+
+    this._receiver = null;
+    this._send(receiver, { type: 'leave', id: this._sessionId });
+  }
+
+  private _serialize(session: DragSession): Record<string, unknown> {
+    if (this._data?.id !== session.id) {
+      this._data = { id: session.id, value: serializeData(session.data) };
+    }
+    return this._data.value;
+  }
+
+  private _findTarget(pointer: Point): BridgeTarget | null {
+    const view = this._document.defaultView;
+    if (!view) return null;
+
+    // Iframes in this document
+    const frames = this._document.querySelectorAll<HTMLIFrameElement>(
+      this._options.frames ?? 'iframe'
+    );
+    for (const frame of frames) {
+      const rect = frame.getBoundingClientRect();
+      if (!pointInRect(pointer.x, pointer.y, rect)) continue;
+
+      const win = this._getAccessibleWindow(frame.contentWindow);
+      if (!win) continue;
+
+      // Content box of a possibly transformed iframe
+      const style = view.getComputedStyle(frame);
+      const scale = frame.offsetWidth > 0 ? rect.width / frame.offsetWidth : 1;
+      return {
+        window: win,
+        position: {
+          x: (pointer.x - rect.left) / scale - frame.clientLeft - parseFloat(style.paddingLeft),
+          y: (pointer.y - rect.top) / scale - frame.clientTop - parseFloat(style.paddingTop),
+        },
+        scale,
+      };
+    }
+
+    // Popups only take over once the pointer leaves this window
+    const inside =
+      pointer.x >= 0 && pointer.y >= 0 && pointer.x <= view.innerWidth && pointer.y <= view.innerHeight;
+    if (inside) return null;
+
+    const origin = viewportOrigin(view);
+    const screen = { x: origin.x + pointer.x, y: origin.y + pointer.y };
+
+    for (const popup of this._options.windows ?? []) {
+      const win = this._getAccessibleWindow(popup);
+      if (!win) continue;
+
+      const popupOrigin = viewportOrigin(win);
+      const position = { x: screen.x - popupOrigin.x, y: screen.y - popupOrigin.y };
+      if (
+        position.x >= 0 &&
+        position.y >= 0 &&
+        position.x <= win.innerWidth &&
+        position.y <= win.innerHeight
+      ) {
+        return { window: win, position, scale: 1 };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The window if it is open and same-origin, else null
+   */
+  private _getAccessibleWindow(win: Window | null): Window | null {
+    if (!win || win.closed) return null;
+    try {
+      // Throws for cross-origin windows
+      return win.document ? win : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private _send(target: Element, message: BridgeMessage): void {
+    // Build the event in the destination's realm
+    const view = target.ownerDocument.defaultView as (Window & typeof globalThis) | null;
+    if (!view) return;
+
+    target.dispatchEvent(
+      new view.CustomEvent(BRIDGE_EVENT, { detail: message, bubbles: true, composed: true })
+    );
+  }
+}
+
+/**
+ * JSON-safe copy of a drag's data; values that can't be serialized are dropped
+ */
+export function serializeData(data: DataTransfer): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const type of data.types) {
+    try {
+      const json = JSON.stringify(data.getData(type));
+      if (json !== undefined) result[type] = JSON.parse(json);
+    } catch {
+      // Circular or otherwise unserializable
+    }
+  }
+  return result;
+}
+
+/**
+ * Innermost element at a point, looking inside open shadow roots
+ */
+function elementFromPoint(document: Document, point: Point): Element | null {
+  let element = document.elementFromPoint(point.x, point.y);
+  while (element?.shadowRoot) {
+    const inner = element.shadowRoot.elementFromPoint(point.x, point.y);
+    if (!inner || inner === element) break;
+    element = inner;
+  }
+  return element;
+}
+
+/**
+ * Screen position of a window's viewport. Assumes the browser frame is
+ * split evenly left/right and sits entirely above the viewport.
+ */
+function viewportOrigin(win: Window): Point {
+  return {
+    x: win.screenX + (win.outerWidth - win.innerWidth) / 2,
+    y: win.screenY + (win.outerHeight - win.innerHeight),
+  };
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Snap } from './Snap.js';
+import { Sortable } from '../plugins/Sortable.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+
+function place(element: HTMLElement, x: number, y: number, width: number, height: number): void {
+  element.getBoundingClientRect = () => new DOMRect(x, y, width, height);
+}
+
+function pointer(type: string, target: EventTarget, x: number, y: number, pointerId = 1): void {
+  target.dispatchEvent(
+    new PointerEvent(type, {
+      bubbles: true,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      pointerId,
+      isPrimary: pointerId === 1,
+      pointerType: 'touch',
+    })
+  );
+}
+
+describe('DragEngine', () => {
+  let container: HTMLElement;
+  let item: HTMLElement;
+  let outer: HTMLElement;
+  let inner: HTMLElement;
+  let snap: Snap;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="item" data-draggable></div>
+        <div id="other" data-draggable></div>
+        <div id="outer"><div id="inner"></div></div>
+      </div>`;
+    container = document.getElementById('container')!;
+    item = document.getElementById('item')!;
+    outer = document.getElementById('outer')!;
+    inner = document.getElementById('inner')!;
+    place(item, 0, 0, 50, 50);
+    place(outer, 100, 0, 300, 300);
+    place(inner, 150, 50, 100, 100);
+    boundsCache.invalidateAll();
+    HTMLElement.prototype.setPointerCapture ??= () => {};
+  });
+
+  afterEach(() => {
+    snap.destroy();
+  });
+
+  function create(options: ConstructorParameters<typeof Snap>[1] = {}): Snap {
+    snap = new Snap(container, { throttle: false, ...options });
+    return snap;
+  }
+
+  describe('nested zones', () => {
+    it('bubbles leave to the ancestors that heard the enter', () => {
+      const calls: string[] = [];
+      create();
+      snap.addDropZone(outer, {
+        bubble: true,
+        onEnter: (e) => calls.push(`outer enter ${e.dropZone.id}`),
+        onLeave: (e) => calls.push(`outer leave ${e.dropZone.id}`),
+      });
+      snap.addDropZone(inner, {
+        onEnter: () => calls.push('inner enter'),
+        onLeave: (e) => calls.push(`inner leave ${e.path.map((zone) => zone.id)}`),
+      });
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+      pointer('pointermove', container, 120, 250);
+
+      expect(calls).toEqual([
+        'inner enter',
+        'outer enter inner',
+        'inner leave inner,outer',
+        'outer leave inner',
+        'outer enter outer',
+      ]);
+    });
+
+    it('stops bubbling leave like enter', () => {
+      const outerLeave = vi.fn();
+      const innerLeave = vi.fn((e) => e.stopPropagation());
+      create();
+      snap.addDropZone(outer, { bubble: true, onLeave: outerLeave });
+      snap.addDropZone(inner, { onLeave: innerLeave });
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+      pointer('pointermove', container, 500, 500);
+
+      expect(innerLeave).toHaveBeenCalledTimes(1);
+      expect(outerLeave).not.toHaveBeenCalled();
+    });
+
+    it('leaves ancestors without bubble alone', () => {
+      const outerLeave = vi.fn();
+      create();
+      const innerLeave = vi.fn();
+      snap.addDropZone(outer, { onLeave: outerLeave });
+      snap.addDropZone(inner, { onLeave: innerLeave });
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+      pointer('pointermove', container, 500, 500);
+
+      expect(innerLeave).toHaveBeenCalledTimes(1);
+      expect(outerLeave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('accepts', () => {
+    beforeEach(() => {
+      item.dataset.draggable = 'card';
+    });
+
+    it('skips a zone that rejects the data for the next one under the pointer', () => {
+      const onDrop = vi.fn();
+      const innerDrop = vi.fn();
+      create({ onDrop });
+      snap.addDropZone(outer);
+      snap.addDropZone(inner, { accepts: ['photo'], onDrop: innerDrop });
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+
+      // Another zone takes the drag, so nothing shows as rejected
+      expect(inner.classList.contains('snap-drop-active')).toBe(false);
+      expect(inner.classList.contains('snap-drop-rejected')).toBe(false);
+      expect(outer.classList.contains('snap-drop-active')).toBe(true);
+
+      pointer('pointerup', container, 200, 100);
+
+      expect(innerDrop).not.toHaveBeenCalled();
+      expect(onDrop.mock.calls[0][0].dropZone).toBe(outer);
+    });
+
+    it('accepts matching types from options, data-accepts or a function', () => {
+      const onDrop = vi.fn();
+      create({ onDrop });
+      inner.dataset.accepts = 'photo, card';
+      snap.addDropZone(inner);
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+      pointer('pointerup', container, 200, 100);
+      expect(onDrop.mock.calls[0][0].dropZone).toBe(inner);
+
+      snap.removeDropZone(inner);
+      snap.addDropZone(inner, { accepts: (data) => data.getData('type') === 'card' });
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+      pointer('pointerup', container, 200, 100);
+      expect(onDrop).toHaveBeenCalledTimes(2);
+    });
+
+    it('marks a rejecting zone while no other zone takes the drag', () => {
+      const onDrop = vi.fn();
+      create({ onDrop });
+      snap.addDropZone(inner, { accepts: ['photo'] });
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 200, 100);
+      expect(inner.classList.contains('snap-drop-rejected')).toBe(true);
+      expect(inner.classList.contains('snap-drop-active')).toBe(false);
+
+      pointer('pointermove', container, 500, 500);
+      expect(inner.classList.contains('snap-drop-rejected')).toBe(false);
+
+      pointer('pointermove', container, 200, 100);
+      pointer('pointerup', container, 200, 100);
+      expect(onDrop).not.toHaveBeenCalled();
+      expect(inner.classList.contains('snap-drop-rejected')).toBe(false);
+    });
+  });
+
+  describe('cancel', () => {
+    let list: HTMLElement;
+    let rows: HTMLElement[];
+
+    beforeEach(() => {
+      list = document.createElement('ul');
+      list.setAttribute('data-droppable', '');
+      list.innerHTML = '<li data-draggable>A</li><li data-draggable>B</li><li data-draggable>C</li>';
+      container.appendChild(list);
+      rows = Array.from(list.children) as HTMLElement[];
+      place(list, 600, 0, 100, 150);
+      rows.forEach((row, i) => place(row, 600, i * 50, 100, 40));
+      boundsCache.invalidateAll();
+    });
+
+    function order(): string[] {
+      return Array.from(list.querySelectorAll('li'), (li) => li.textContent ?? '');
+    }
+
+    it('restores a sorted item and cleans up on Escape', () => {
+      const onDrop = vi.fn();
+      const onDragEnd = vi.fn();
+      create({ dropAnimation: false, onDrop, onDragEnd }).use(new Sortable());
+
+      pointer('pointerdown', rows[0], 610, 10);
+      pointer('pointermove', container, 610, 140);
+      expect(list.querySelector('.snap-sortable-placeholder')).not.toBeNull();
+      expect(list.classList.contains('snap-drop-active')).toBe(true);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+      expect(order()).toEqual(['A', 'B', 'C']);
+      expect(list.querySelector('.snap-sortable-placeholder')).toBeNull();
+      expect(document.querySelector('.snap-ghost')).toBeNull();
+      expect(rows[0].classList.contains('snap-dragging')).toBe(false);
+      expect(list.classList.contains('snap-drop-active')).toBe(false);
+      expect(onDrop).not.toHaveBeenCalled();
+      expect(onDragEnd.mock.calls[0][0].cancelled).toBe(true);
+      expect(snap.isDragging()).toBe(false);
+    });
+
+    it('commits the same move when dropped instead', () => {
+      create({ dropAnimation: false }).use(new Sortable());
+
+      pointer('pointerdown', rows[0], 610, 10);
+      pointer('pointermove', container, 610, 140);
+      pointer('pointerup', container, 610, 140);
+
+      expect(order()).toEqual(['B', 'C', 'A']);
+    });
+
+    it('cancels from onDragStart', () => {
+      const onDragEnd = vi.fn();
+      create({ onDragStart: (e) => e.cancel(), onDragEnd });
+
+      pointer('pointerdown', item, 10, 10);
+
+      expect(snap.isDragging()).toBe(false);
+      expect(item.classList.contains('snap-dragging')).toBe(false);
+      expect(document.querySelector('.snap-ghost')).toBeNull();
+      expect(onDragEnd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multiTouch', () => {
+    it('follows a change made with setOptions on the next pointerdown', () => {
+      const onDragStart = vi.fn();
+      const onDragEnd = vi.fn();
+      const other = document.getElementById('other')!;
+      create({ onDragStart, onDragEnd });
+
+      pointer('pointerdown', item, 10, 10, 1);
+      pointer('pointerdown', other, 10, 10, 2);
+      expect(onDragStart).toHaveBeenCalledTimes(1);
+      pointer('pointerup', container, 10, 10, 1);
+
+      snap.setOptions({ multiTouch: true });
+      pointer('pointerdown', item, 10, 10, 1);
+      pointer('pointerdown', other, 10, 10, 2);
+
+      // Neither drag ended the other
+      expect(onDragStart).toHaveBeenCalledTimes(3);
+      expect(onDragEnd).toHaveBeenCalledTimes(1);
+      expect(new Set(onDragStart.mock.calls.slice(1).map(([e]) => e.sessionId)).size).toBe(2);
+    });
+  });
+});
@@ -2,24 +2,80 @@
  * DragEngine orchestrates the drag operation
  * Coordinates between sensors, state, and drop zones
  */
-import type { Point, SnapOptions, Axis } from '../types/index.js';
+import type {
+  Point,
+  SnapOptions,
+  Axis,
+  ItemOptions,
+  DragSession,
+  Behavior,
+  ModifiedPosition,
+  ModifierContext,
+  CollisionZone,
+  DataTransfer,
+} from '../types/index.js';
 import { DragState } from './DragState.js';
+import type { DropZone } from './DropZone.js';
 import {
   PointerSensor,
   type PointerStartEvent,
   type PointerMoveEvent,
   type PointerEndEvent,
 } from '../sensors/PointerSensor.js';
-import { boundsCache, pointInRect } from '../utils/BoundsCache.js';
+import { getCollisionDetector, isOverlapStrategy } from './Collision.js';
+import {
+  getExtension,
+  getInput,
+  inputOptions,
+  type DragRelay,
+  type Input,
+  type InputConfig,
+  type InputHost,
+  type InputOption,
+} from './Features.js';
+import type { DropAnimation } from './DropAnimation.js';
+import { boundsCache } from '../utils/BoundsCache.js';
 import { pointPool } from '../utils/ObjectPool.js';
+import { SpatialIndex } from '../utils/SpatialIndex.js';
 
 export interface DragEngineOptions {
   container: HTMLElement | ShadowRoot;
   state: DragState;
   options: SnapOptions;
   getDropZones: () => HTMLElement[];
+  getDropZone: (element: HTMLElement) => DropZone;
+  /** Drop zone and its ancestor drop zones, innermost first */
+  getDropZonePath: (element: HTMLElement) => HTMLElement[];
+  /** Options of the grouped Snap instance that owns a zone, null for own zones */
+  getRemoteZoneOptions?: (element: HTMLElement) => SnapOptions | null;
+  getDraggables: () => HTMLElement[];
+  getItemOptions: (element: HTMLElement) => ItemOptions | undefined;
+  getDragElements: (element: HTMLElement) => HTMLElement[];
   getItemData: (element: HTMLElement) => Record<string, unknown> | undefined;
   getItemAxis: (element: HTMLElement) => Axis | undefined;
+  /** Behaviors whose modifyPosition() runs on every move */
+  getBehaviors: () => Behavior[];
+}
+
+// A step in the position modifier pipeline
+interface Modifier {
+  priority: number;
+  modify: (position: Point, context: ModifierContext) => ModifiedPosition | void;
+}
+
+// Ghost and hit-testing state of one drag session
+interface ActiveDrag {
+  session: DragSession;
+  /** Pointer driving the drag, null for keyboard and bridged-in drags */
+  pointerId: number | null;
+  ghost: HTMLElement | null;
+  /** Offset from the pointer to the ghost's top-left corner */
+  ghostOffset: Point;
+  ghostSize: { width: number; height: number };
+  /** Zone under the pointer that rejects this drag */
+  rejectedZone: HTMLElement | null;
+  /** Carries this drag into other documents (bridge option) */
+  relay: DragRelay | null;
 }
 
 export class DragEngine {
@@ -27,24 +83,59 @@ export class DragEngine {
   private _state: DragState;
   private _options: SnapOptions;
   private _getDropZones: () => HTMLElement[];
+  private _getDropZone: (element: HTMLElement) => DropZone;
+  private _getDropZonePath: (element: HTMLElement) => HTMLElement[];
+  private _getRemoteZoneOptions: (element: HTMLElement) => SnapOptions | null;
+  private _getDraggables: () => HTMLElement[];
+  private _getDragElements: (element: HTMLElement) => HTMLElement[];
   private _getItemData: (element: HTMLElement) => Record<string, unknown> | undefined;
   private _getItemAxis: (element: HTMLElement) => Axis | undefined;
+  private _getBehaviors: () => Behavior[];
 
   private _pointerSensor: PointerSensor;
+  private _getItemOptions: (element: HTMLElement) => ItemOptions | undefined;
+  private _inputs: Input[] = [];
   private _enabled = false;
   private _listenerUnsubscribers: (() => void)[] = [];
 
-  // Ghost element for visual feedback
-  private _ghost: HTMLElement | null = null;
-  private _ghostOffset: Point = { x: 0, y: 0 };
+  // Drags in progress by session id, several at once with multiTouch
+  private _drags = new Map<string, ActiveDrag>();
+
+  // Drop zones and their rects, rebuilt when the zone list or the bounds
+  // cache generation changes and patched when something scrolls during a drag
+  private _zones: HTMLElement[] = [];
+  private _zoneIndex = new SpatialIndex<HTMLElement>();
+  private _zonesDirty = true;
+  private _zonesGeneration = -1;
+
+  // Ghost animation after drop or cancel, where the full bundle registered it
+  private _dropAnimation: DropAnimation | null;
 
   constructor(engineOptions: DragEngineOptions) {
     this._container = engineOptions.container;
     this._state = engineOptions.state;
     this._options = engineOptions.options;
     this._getDropZones = engineOptions.getDropZones;
+    this._getDropZone = engineOptions.getDropZone;
+    this._getDropZonePath = engineOptions.getDropZonePath;
+    this._getRemoteZoneOptions = engineOptions.getRemoteZoneOptions ?? (() => null);
+    this._getDraggables = engineOptions.getDraggables;
+    this._getDragElements = engineOptions.getDragElements;
     this._getItemData = engineOptions.getItemData;
     this._getItemAxis = engineOptions.getItemAxis;
+    this._getBehaviors = engineOptions.getBehaviors;
+    this._getItemOptions = engineOptions.getItemOptions;
+    this._dropAnimation = getExtension('dropAnimation')?.(this._options) ?? null;
+
+    // Keyboard, bridge and native inputs, where the full bundle registered them
+    const host = this._createInputHost();
+    for (const option of inputOptions) {
+      const input = this._createInput(option, host);
+      if (input) this._inputs.push(input);
+    }
+
+    const keyboard = this._options.keyboard;
+    const ignored = this._inputs.flatMap((input) => input.ignoreSelector ?? []);
 
     // Initialize pointer sensor
     this._pointerSensor = new PointerSensor({
@@ -53,7 +144,12 @@ export class DragEngine {
       handleSelector: this._options.handleSelector,
       delay: this._options.delay,
       distance: this._options.distance,
+      activation: this._options.activation,
       throttle: this._options.throttle,
+      cancelKeys: typeof keyboard === 'object' ? keyboard.cancelKeys : undefined,
+      getItemOptions: engineOptions.getItemOptions,
+      ignoreSelector: ignored.length > 0 ? ignored.join(', ') : undefined,
+      multiple: this._options.multiTouch,
     });
 
     this._setupListeners();
@@ -65,6 +161,9 @@ export class DragEngine {
   enable(): void {
     if (this._enabled) return;
     this._pointerSensor.attach();
+    for (const input of this._inputs) {
+      input.attach();
+    }
     this._enabled = true;
   }
 
@@ -74,8 +173,16 @@ export class DragEngine {
   disable(): void {
     if (!this._enabled) return;
     this._pointerSensor.detach();
+    for (const input of this._inputs) {
+      input.detach();
+    }
+    for (const drag of this._drags.values()) {
+      drag.relay?.leave();
+      this._removeGhost(drag);
+    }
+    this._drags.clear();
     this._state.reset();
-    this._removeGhost();
+    this._dropAnimation?.finishAll();
     this._enabled = false;
   }
 
@@ -91,6 +198,81 @@ export class DragEngine {
    */
   updateOptions(options: Partial<SnapOptions>): void {
     Object.assign(this._options, options);
+
+    // Running drags carry on, the next pointerdown follows the new setting
+    const multiple = this._options.multiTouch ?? false;
+    this._pointerSensor.multiple = multiple;
+    this._state.multiple = multiple;
+  }
+
+  /**
+   * Rebuild the drop zone index before the next hit test
+   */
+  invalidateDropZones(): void {
+    this._zonesDirty = true;
+  }
+
+  /**
+   * Move the indexed drop zones inside a scrolled element
+   * (all of them when the document scrolled)
+   */
+  updateDropZoneRects(scrolled: EventTarget | null): void {
+    if (this._zonesDirty) return;
+
+    // The cache's own scroll listener may not have run yet
+    boundsCache.scrolled(scrolled);
+    const all = !(scrolled instanceof Node) || scrolled.nodeType === Node.DOCUMENT_NODE;
+    for (const zone of this._zones) {
+      if (all || containsComposed(scrolled, zone)) {
+        this._zoneIndex.set(zone, boundsCache.get(zone));
+      }
+    }
+  }
+
+  /**
+   * What inputs see of the engine. Their drags have no pointer id.
+   */
+  private _createInputHost(): InputHost {
+    return {
+      container: this._container,
+      options: this._options,
+      isDragging: () => this._state.session !== null,
+      start: (element, position, bridged) => {
+        if (bridged) {
+          this._startDrag(element, position, bridged.data, [element], null, bridged);
+        } else {
+          this._pickUp(element, position, null);
+        }
+        return this._getDrag(undefined) !== null;
+      },
+      move: (position) => this._onPointerMove({ position }),
+      drop: (position) => this._onPointerUp({ position }),
+      cancel: (position) => this._onPointerCancel({ position }),
+      getDraggables: () => this._getDraggables(),
+      getDropZones: () => this._getDropZones(),
+      getDropZone: (element) => this._getDropZone(element),
+      getDropZonePath: (element) => this._getDropZonePath(element),
+      getItemOptions: (element) => this._getItemOptions(element),
+      getItemData: (element) => this._getItemData(element) ?? this._extractDataAttributes(element),
+      findDropZone: (position, data) => this._findDropZone(position, data),
+    };
+  }
+
+  private _createInput<K extends InputOption>(option: K, host: InputHost): Input | null {
+    // Keyboard is on unless turned off
+    const value = option === 'keyboard' ? this._options.keyboard ?? true : this._options[option];
+    const create = getInput(option);
+    if (!value || !create) return null;
+
+    return create(host, (value === true ? {} : value) as InputConfig<K>);
+  }
+
+  private _createRelay(): DragRelay | null {
+    for (const input of this._inputs) {
+      const relay = input.createRelay?.();
+      if (relay) return relay;
+    }
+    return null;
   }
 
   private _setupListeners(): void {
@@ -102,75 +284,142 @@ export class DragEngine {
     );
   }
 
+  private _findDropZone(position: Point, data: DataTransfer): HTMLElement | null {
+    const detect = getCollisionDetector(this._options.collision);
+    const collisions = detect({
+      position,
+      dragRect: null,
+      dropZones: this._getCollisionZones(position, null),
+    });
+
+    return collisions.find((zone) => this._getDropZone(zone).accepts(data)) ?? null;
+  }
+
   private _onPointerDown = (event: PointerStartEvent): void => {
-    const { element, position } = event;
+    // Pointer takes over from an in-progress keyboard drag
+    for (const input of this._inputs) {
+      input.interrupt?.();
+    }
+
+    this._pickUp(event.element, event.position, event.pointerId);
+  };
+
+  /**
+   * Start dragging an element and the rest of its selection group
+   */
+  private _pickUp(element: HTMLElement, position: Point, pointerId: number | null): void {
+    // Items already following another pointer stay with it
+    const dragging = new Set(this._state.sessions.flatMap((session) => session.elements));
+    if (dragging.has(element)) return;
 
     // Get item data from data attributes or imperative registration
     const data = this._getItemData(element) ?? this._extractDataAttributes(element);
 
+    // Selected items are dragged together
+    const elements = this._getDragElements(element).filter(
+      (el) => el === element || !dragging.has(el)
+    );
+
+    this._startDrag(element, position, data, elements, pointerId);
+  }
+
+  private _startDrag(
+    element: HTMLElement,
+    position: Point,
+    data: Record<string, unknown>,
+    elements: HTMLElement[],
+    pointerId: number | null,
+    // Ghost geometry and look for drags bridged from another document
+    bridged?: {
+      rect: { left: number; top: number; width: number; height: number };
+      ghostSource: HTMLElement;
+    }
+  ): void {
     // Start drag session
-    const session = this._state.startDrag(element, position, data);
+    const session = this._state.startDrag(element, position, data, elements);
+    const drag: ActiveDrag = {
+      session,
+      pointerId,
+      ghost: null,
+      ghostOffset: { x: 0, y: 0 },
+      ghostSize: { width: 0, height: 0 },
+      rejectedZone: null,
+      relay: this._createRelay(),
+    };
+    this._drags.set(session.id, drag);
 
     // Create ghost element FIRST (before removing original from flow)
-    this._createGhost(element, position);
+    this._createGhost(
+      drag,
+      bridged?.ghostSource ?? element,
+      position,
+      elements.length,
+      bridged?.rect
+    );
 
     // Add dragging class BEFORE callback - removes element from document flow
     // This prevents layout shift when Sortable plugin inserts placeholder
-    element.classList.add('snap-dragging');
-    if (this._options.ghostClass) {
-      element.classList.add(this._options.ghostClass);
+    for (const el of elements) {
+      el.classList.add('snap-dragging');
+      if (this._options.ghostClass) {
+        el.classList.add(this._options.ghostClass);
+      }
     }
 
     // Call user callback AFTER element is out of flow
     const startEvent = {
+      sessionId: session.id,
       element,
+      elements,
       position: { x: position.x, y: position.y },
       data: session.data,
       cancel: () => {
-        this._state.cancelDrag();
-        this._cleanup(element);
+        this._state.cancelDrag(session);
+        this._cleanup(drag);
       },
     };
 
     const result = this._options.onDragStart?.(startEvent);
     if (result === false) {
-      this._state.cancelDrag();
-      this._cleanup(element);
+      this._state.cancelDrag(session);
+      this._cleanup(drag);
       return;
     }
 
     // Invalidate bounds cache (positions may change)
     boundsCache.invalidateAll();
-  };
-
-  private _onPointerMove = (event: PointerMoveEvent): void => {
-    const session = this._state.session;
-    if (!session) return;
-
-    let { position } = event;
+    this._zonesDirty = true;
+  }
 
-    // Apply axis constraints
-    const axis = this._getItemAxis(session.element) ?? this._options.axis ?? 'both';
-    if (axis !== 'both') {
-      position = this._applyAxisConstraint(position, session.origin, axis);
-    }
+  private _onPointerMove = (
+    event: Pick<PointerMoveEvent, 'position'> & { pointerId?: number }
+  ): void => {
+    const drag = this._getDrag(event.pointerId);
+    if (!drag) return;
+    const { session } = drag;
 
-    // Apply grid snapping
-    if (this._options.grid) {
-      position = this._applyGridSnap(position, this._options.grid);
-    }
+    // Run axis, behavior and grid modifiers
+    const { ghostTransform, ...position } = this._applyModifiers(event.position, drag);
 
     // Update state
-    this._state.updatePosition(position);
+    this._state.updatePosition(position, session);
 
     // Update ghost position
-    this._updateGhost(position);
+    this._updateGhost(drag, position, ghostTransform);
+
+    // Over a bridged iframe or popup, that document shows the ghost and finds the zone
+    const remote =
+      drag.relay?.move(session, position, drag.ghostOffset, drag.ghostSize) ?? false;
+    if (drag.ghost) {
+      drag.ghost.style.visibility = remote ? 'hidden' : '';
+    }
 
     // Hit test drop zones
-    this._updateDropZone(position);
+    this._updateDropZone(drag, position, remote);
 
     // Call user callback
     this._options.onDragMove?.({
+      sessionId: session.id,
       element: session.element,
       position: { x: session.current.x, y: session.current.y },
       delta: { x: session.delta.x, y: session.delta.y },
@@ -178,52 +427,168 @@ export class DragEngine {
     });
   };
 
-  private _onPointerUp = (event: PointerEndEvent): void => {
-    const session = this._state.session;
-    if (!session) return;
+  private _onPointerUp = (
+    event: Pick<PointerEndEvent, 'position'> & { pointerId?: number }
+  ): void => {
+    const drag = this._getDrag(event.pointerId);
+    if (!drag) return;
+
+    // A bridged document takes the drop, this one just ends the drag
+    const remote = drag.relay?.drop(drag.session.current) ?? false;
 
     // End drag and get final session
-    const finalSession = this._state.endDrag();
-    if (!finalSession) return;
+    const finalSession = this._state.endDrag(drag.session);
+    if (!finalSession) {
+      this._cleanup(drag);
+      return;
+    }
 
-    // Remove visual feedback
-    this._cleanup(finalSession.element);
+    // Keep the ghost for the drop animation, remove other visual feedback
+    const ghost = remote ? null : this._takeGhostForAnimation(drag);
+    this._cleanup(drag, finalSession.dropZone);
+    const animation = this._deferDropAnimation();
 
-    // Call drop callback if over valid zone
+    // Call drop callbacks if over valid zone: the zone, opted-in ancestors, then global
     if (finalSession.dropZone) {
-      this._options.onDrop?.({
+      const path = this._getDropZonePath(finalSession.dropZone);
+      let stopped = false;
+      const dropEvent = {
+        sessionId: finalSession.id,
         element: finalSession.element,
+        elements: finalSession.elements,
         dropZone: finalSession.dropZone,
         position: { x: finalSession.current.x, y: finalSession.current.y },
         data: finalSession.data,
-      });
+        path,
+        stopPropagation: () => {
+          stopped = true;
+        },
+      };
+
+      this._getDropZone(finalSession.dropZone).drop(dropEvent);
+      this._bubble(path, () => stopped, (zone) => zone.bubbleDrop(dropEvent));
+      this._options.onDrop?.(dropEvent);
+      this._getRemoteZoneOptions(finalSession.dropZone)?.onDrop?.(dropEvent);
     }
 
     // Call end callback
     this._options.onDragEnd?.({
+      sessionId: finalSession.id,
       element: finalSession.element,
+      elements: finalSession.elements,
       position: { x: finalSession.current.x, y: finalSession.current.y },
       delta: { x: finalSession.delta.x, y: finalSession.delta.y },
       cancelled: false,
+      waitForAnimation: () => animation.promise,
     });
+
+    // Plugins have moved the element into place by now
+    this._animateDrop(ghost, finalSession.element, finalSession.elements).then(
+      animation.resolve
+    );
   };
 
-  private _onPointerCancel = (event: PointerEndEvent): void => {
-    const session = this._state.session;
-    if (!session) return;
+  private _onPointerCancel = (
+    event: Pick<PointerEndEvent, 'position'> & { pointerId?: number }
+  ): void => {
+    const drag = this._getDrag(event.pointerId);
+    if (!drag) return;
 
-    const element = session.element;
-    this._state.cancelDrag();
-    this._cleanup(element);
+    const { id, element, elements, dropZone } = drag.session;
+    drag.relay?.leave();
+    this._state.cancelDrag(drag.session);
+    const ghost = this._takeGhostForAnimation(drag);
+    this._cleanup(drag, dropZone);
+    const animation = this._deferDropAnimation();
 
     this._options.onDragEnd?.({
+      sessionId: id,
       element,
+      elements,
       position: event.position,
       delta: { x: 0, y: 0 },
       cancelled: true,
+      waitForAnimation: () => animation.promise,
     });
+
+    // Fly back to wherever the element was restored
+    this._animateDrop(ghost, element, elements).then(animation.resolve);
   };
 
+  /**
+   * Drag driven by a pointer, or the keyboard or bridged-in drag without one
+   */
+  private _getDrag(pointerId: number | undefined): ActiveDrag | null {
+    for (const drag of this._drags.values()) {
+      if (drag.pointerId === (pointerId ?? null)) return drag;
+    }
+    return null;
+  }
+
+  /**
+   * Concurrent drags besides this one
+   */
+  private _getOtherDrags(drag: ActiveDrag): ActiveDrag[] {
+    return [...this._drags.values()].filter((other) => other !== drag);
+  }
+
+  /**
+   * Pass the position through each modifier in priority order:
+   * axis option (-100), behaviors (default 0), grid option (100)
+   */
+  private _applyModifiers(pointer: Point, drag: ActiveDrag): ModifiedPosition {
+    const { session } = drag;
+    const modifiers: Modifier[] = [
+      {
+        priority: -100,
+        modify: (position) => {
+          const axis = this._getItemAxis(session.element) ?? this._options.axis ?? 'both';
+          return this._applyAxisConstraint(position, session.origin, axis);
+        },
+      },
+    ];
+
+    for (const behavior of this._getBehaviors()) {
+      if (!behavior.modifyPosition) continue;
+      modifiers.push({
+        priority: behavior.priority ?? 0,
+        modify: (position, context) => behavior.modifyPosition?.(position, context),
+      });
+    }
+
+    const grid = this._options.grid;
+    if (grid) {
+      modifiers.push({
+        priority: 100,
+        modify: (position) => this._applyGridSnap(position, grid),
+      });
+    }
+
+    // Stable sort keeps registration order for equal priorities
+    modifiers.sort((a, b) => a.priority - b.priority);
+
+    const context: ModifierContext = {
+      session,
+      pointer: { x: pointer.x, y: pointer.y },
+      offset: { x: drag.ghostOffset.x, y: drag.ghostOffset.y },
+      size: { width: drag.ghostSize.width, height: drag.ghostSize.height },
+    };
+
+    let position: Point = { x: pointer.x, y: pointer.y };
+    const transforms: string[] = [];
+    for (const modifier of modifiers) {
+      const result = modifier.modify(position, context);
+      if (!result) continue;
+
+      position = { x: result.x, y: result.y };
+      if (result.ghostTransform) transforms.push(result.ghostTransform);
+    }
+
+    return transforms.length > 0
+      ? { ...position, ghostTransform: transforms.join(' ') }
+      : position;
+  }
+
   private _applyAxisConstraint(position: Point, origin: Point, axis: Axis): Point {
     if (axis === 'x') {
       return { x: position.x, y: origin.y };
@@ -241,84 +606,204 @@ export class DragEngine {
     };
   }
 
-  private _updateDropZone(position: Point): void {
-    const dropZones = this._getDropZones();
+  private _updateDropZone(drag: ActiveDrag, position: Point, remote = false): void {
+    const { session } = drag;
+
+    // Nothing here is under the pointer while a bridged document has the drag
+    const detect = getCollisionDetector(this._options.collision);
+    const dragRect = this._getGhostRect(drag, position);
+    const collisions = remote
+      ? []
+      : detect({
+          position,
+          dragRect,
+          dropZones: this._getCollisionZones(position, dragRect),
+        });
+
     let foundZone: HTMLElement | null = null;
+    let rejectedZone: HTMLElement | null = null;
 
-    for (const zone of dropZones) {
-      const rect = boundsCache.get(zone);
-      if (pointInRect(position.x, position.y, rect)) {
-        foundZone = zone;
-        break;
+    for (const zone of collisions) {
+      // Skip zones that don't accept this drag's data
+      if (!this._getDropZone(zone).accepts(session.data)) {
+        rejectedZone ??= zone;
+        continue;
       }
+
+      foundZone = zone;
+      break;
     }
 
-    const session = this._state.session;
-    if (!session) return;
+    this._setRejectedZone(drag, foundZone ? null : rejectedZone);
 
     // Handle zone change
     if (foundZone !== session.dropZone) {
       if (session.dropZone) {
-        this._options.onDropZoneLeave?.({
+        const path = this._getDropZonePath(session.dropZone);
+        let stopped = false;
+        const leaveEvent = {
+          sessionId: session.id,
           element: session.element,
           dropZone: session.dropZone,
-        });
+          path,
+          stopPropagation: () => {
+            stopped = true;
+          },
+        };
+        this._getDropZone(session.dropZone).leave(leaveEvent);
+        this._bubble(path, () => stopped, (zone) => zone.bubbleLeave(leaveEvent));
+
+        // Still highlighted while another drag is over it
+        const zone = session.dropZone;
+        if (this._getOtherDrags(drag).some((other) => other.session.dropZone === zone)) {
+          this._getDropZone(zone).setActive(true);
+        }
+        this._options.onDropZoneLeave?.(leaveEvent);
+        this._getRemoteZoneOptions(session.dropZone)?.onDropZoneLeave?.(leaveEvent);
       }
 
-      this._state.setDropTarget(foundZone);
+      this._state.setDropTarget(foundZone, session);
 
       if (foundZone) {
-        this._options.onDropZoneEnter?.({
+        const path = this._getDropZonePath(foundZone);
+        let stopped = false;
+        const enterEvent = {
+          sessionId: session.id,
           element: session.element,
           dropZone: foundZone,
           position,
-        });
+          path,
+          stopPropagation: () => {
+            stopped = true;
+          },
+        };
+        this._getDropZone(foundZone).enter(enterEvent);
+        this._bubble(path, () => stopped, (zone) => zone.bubbleEnter(enterEvent));
+        this._options.onDropZoneEnter?.(enterEvent);
+        this._getRemoteZoneOptions(foundZone)?.onDropZoneEnter?.(enterEvent);
       }
     }
   }
 
-  private _createGhost(element: HTMLElement, position: Point): void {
-    const rect = element.getBoundingClientRect();
+  /**
+   * Zones the collision strategy has to look at, with their indexed rects.
+   * Overlap-based strategies only get the zones near the drag.
+   */
+  private _getCollisionZones(position: Point, dragRect: DOMRect | null): CollisionZone[] {
+    if (this._zonesDirty) {
+      this._zones = this._getDropZones();
+      this._zonesDirty = false;
+      this._zonesGeneration = -1;
+    }
+
+    // Re-measure after a resize or a plugin moved elements
+    if (this._zonesGeneration !== boundsCache.generation) {
+      this._zoneIndex.clear();
+      for (const zone of this._zones) {
+        this._zoneIndex.set(zone, boundsCache.get(zone));
+      }
+      this._zonesGeneration = boundsCache.generation;
+    }
+
+    let zones = this._zones;
+    if (isOverlapStrategy(this._options.collision)) {
+      // Pointer and dragged rect together
+      const left = Math.min(position.x, dragRect?.left ?? position.x);
+      const top = Math.min(position.y, dragRect?.top ?? position.y);
+      const right = Math.max(position.x, dragRect?.right ?? position.x);
+      const bottom = Math.max(position.y, dragRect?.bottom ?? position.y);
+      zones = this._zoneIndex.search(new DOMRect(left, top, right - left, bottom - top));
+    }
+
+    return zones.map((element) => ({
+      element,
+      rect: this._zoneIndex.getRect(element) ?? boundsCache.get(element),
+    }));
+  }
 
+  /**
+   * Walk a zone's ancestors (path minus the zone itself) until propagation stops
+   */
+  private _bubble(
+    path: HTMLElement[],
+    isStopped: () => boolean,
+    notify: (zone: DropZone) => void
+  ): void {
+    for (const element of path.slice(1)) {
+      if (isStopped()) return;
+      notify(this._getDropZone(element));
+    }
+  }
+
+  private _setRejectedZone(drag: ActiveDrag, zone: HTMLElement | null): void {
+    if (zone === drag.rejectedZone) return;
+
+    const previous = drag.rejectedZone;
+    if (previous && !this._getOtherDrags(drag).some((other) => other.rejectedZone === previous)) {
+      this._getDropZone(previous).setRejected(false);
+    }
+    if (zone) {
+      this._getDropZone(zone).setRejected(true);
+    }
+    drag.rejectedZone = zone;
+  }
+
+  private _createGhost(
+    drag: ActiveDrag,
+    element: HTMLElement,
+    position: Point,
+    count = 1,
+    rect: { left: number; top: number; width: number; height: number } = element.getBoundingClientRect()
+  ): void {
     // Store offset from cursor to element's top-left corner
-    this._ghostOffset = {
+    drag.ghostOffset = {
       x: position.x - rect.left,
       y: position.y - rect.top,
     };
+    drag.ghostSize = { width: rect.width, height: rect.height };
+
+    let ghost: HTMLElement;
 
     // Use custom renderer if provided, otherwise clone
     if (this._options.renderGhost) {
-      this._ghost = this._options.renderGhost(element);
+      ghost = this._options.renderGhost(element);
     } else {
       // Clone element for ghost
-      this._ghost = element.cloneNode(true) as HTMLElement;
+      ghost = element.cloneNode(true) as HTMLElement;
 
       // Copy computed styles for Shadow DOM compatibility (recursively for all children)
-      this._copyComputedStyles(element, this._ghost);
+      this._copyComputedStyles(element, ghost);
+    }
+
+    // Stacked preview with a count badge for multi-item drags
+    if (count > 1) {
+      ghost = getExtension('multiSelect')?.stackGhost(ghost, count) ?? ghost;
     }
 
     // Override with ghost-specific styles
-    this._ghost.style.position = 'fixed';
-    this._ghost.style.left = '0';
-    this._ghost.style.top = '0';
-    this._ghost.style.width = `${rect.width}px`;
-    this._ghost.style.height = `${rect.height}px`;
-    this._ghost.style.margin = '0';
-    this._ghost.style.pointerEvents = 'none';
-    this._ghost.style.zIndex = '9999';
-    this._ghost.style.opacity = '0.8';
-    this._ghost.style.willChange = 'transform';
-    this._ghost.classList.add('snap-ghost');
+    ghost.style.position = 'fixed';
+    ghost.style.left = '0';
+    ghost.style.top = '0';
+    ghost.style.width = `${rect.width}px`;
+    ghost.style.height = `${rect.height}px`;
+    ghost.style.margin = '0';
+    ghost.style.pointerEvents = 'none';
+    ghost.style.zIndex = '9999';
+    ghost.style.opacity = '0.8';
+    ghost.style.willChange = 'transform';
+    ghost.classList.add('snap-ghost');
 
     // Position ghost at element's current location
-    this._ghost.style.transform = `translate(${rect.left}px, ${rect.top}px)`;
+    ghost.style.transform = `translate(${rect.left}px, ${rect.top}px)`;
 
     // Append to body (not container, to avoid transform issues)
-    document.body.appendChild(this._ghost);
+    document.body.appendChild(ghost);
+    drag.ghost = ghost;
   }
 
   private _copyComputedStyles(source: HTMLElement, target: HTMLElement): void {
-    const computed = window.getComputedStyle(source);
+    // Bridged drags clone an element from another document
+    const computed = (source.ownerDocument.defaultView ?? window).getComputedStyle(source);
 
     // Copy all key visual and layout styles
     const stylesToCopy = [
@@ -351,29 +836,82 @@ export class DragEngine {
     }
   }
 
-  private _updateGhost(position: Point): void {
-    if (!this._ghost) return;
+  private _updateGhost(drag: ActiveDrag, position: Point, ghostTransform?: string): void {
+    if (!drag.ghost) return;
 
     // Ghost follows cursor, maintaining the original click offset
-    const x = position.x - this._ghostOffset.x;
-    const y = position.y - this._ghostOffset.y;
+    const x = position.x - drag.ghostOffset.x;
+    const y = position.y - drag.ghostOffset.y;
 
-    this._ghost.style.transform = `translate(${x}px, ${y}px)`;
+    const translate = `translate(${x}px, ${y}px)`;
+    drag.ghost.style.transform = ghostTransform ? `${translate} ${ghostTransform}` : translate;
   }
 
-  private _removeGhost(): void {
-    if (this._ghost) {
-      this._ghost.remove();
-      this._ghost = null;
+  /**
+   * Ghost rect for a pointer position, computed without forcing layout
+   */
+  private _getGhostRect(drag: ActiveDrag, position: Point): DOMRect | null {
+    if (!drag.ghost) return null;
+
+    return new DOMRect(
+      position.x - drag.ghostOffset.x,
+      position.y - drag.ghostOffset.y,
+      drag.ghostSize.width,
+      drag.ghostSize.height
+    );
+  }
+
+  private _removeGhost(drag: ActiveDrag): void {
+    if (drag.ghost) {
+      drag.ghost.remove();
+      drag.ghost = null;
     }
   }
 
-  private _cleanup(element: HTMLElement): void {
-    element.classList.remove('snap-dragging');
-    if (this._options.ghostClass) {
-      element.classList.remove(this._options.ghostClass);
+  /**
+   * Detach the ghost from the engine so cleanup leaves it in place
+   */
+  private _takeGhostForAnimation(drag: ActiveDrag): HTMLElement | null {
+    if (!drag.ghost || !this._dropAnimation?.getOptions()) return null;
+
+    const ghost = drag.ghost;
+    drag.ghost = null;
+    return ghost;
+  }
+
+  private _deferDropAnimation(): { promise: Promise<void>; resolve: () => void } {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  }
+
+  /**
+   * Animate the ghost into place; resolves right away without an animation
+   */
+  private _animateDrop(
+    ghost: HTMLElement | null,
+    element: HTMLElement,
+    elements: HTMLElement[]
+  ): Promise<void> {
+    return this._dropAnimation?.animate(ghost, element, elements) ?? Promise.resolve();
+  }
+
+  private _cleanup(drag: ActiveDrag, dropZone: HTMLElement | null = null): void {
+    // Other drags over the zone keep it highlighted
+    if (dropZone && !this._getOtherDrags(drag).some((other) => other.session.dropZone === dropZone)) {
+      this._getDropZone(dropZone).setActive(false);
+    }
+    this._setRejectedZone(drag, null);
+    for (const element of drag.session.elements) {
+      element.classList.remove('snap-dragging');
+      if (this._options.ghostClass) {
+        element.classList.remove(this._options.ghostClass);
+      }
     }
-    this._removeGhost();
+    this._removeGhost(drag);
+    this._drags.delete(drag.session.id);
   }
 
   private _extractDataAttributes(element: HTMLElement): Record<string, unknown> {
@@ -409,5 +947,21 @@ export class DragEngine {
     this._listenerUnsubscribers = [];
 
     this._pointerSensor.destroy();
+    for (const input of this._inputs) {
+      input.destroy();
+    }
+    this._inputs = [];
+  }
+}
+
+/**
+ * Node.contains() that also looks through shadow roots
+ */
+function containsComposed(ancestor: Node, node: Node): boolean {
+  let current: Node | null = node;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parentNode ?? (current instanceof ShadowRoot ? current.host : null);
   }
+  return false;
 }
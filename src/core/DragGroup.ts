@@ -0,0 +1,54 @@
+/**
+ * Drag groups - Snap instances sharing a group name see each other's drop
+ * zones, so items can be dragged between separate containers and shadow roots
+ */
+import type { SnapOptions } from '../types/index.js';
+import type { DropZone } from './DropZone.js';
+
+// A Snap instance's view of itself, as seen by the rest of its group
+export interface GroupMember {
+  /** Options holding the member's callbacks */
+  readonly options: SnapOptions;
+  getDropZones(): HTMLElement[];
+  ownsDropZone(element: HTMLElement): boolean;
+  getDropZone(element: HTMLElement): DropZone;
+  /** Drop zone and its ancestor drop zones, innermost first */
+  getDropZonePath(element: HTMLElement): HTMLElement[];
+  /** Called when a peer's drop zones were added, removed or left the group */
+  dropZonesChanged(): void;
+}
+
+const groups = new Map<string, Set<GroupMember>>();
+
+/**
+ * Add a member to a named group
+ */
+export function joinGroup(name: string, member: GroupMember): void {
+  let members = groups.get(name);
+  if (!members) {
+    members = new Set();
+    groups.set(name, members);
+  }
+  members.add(member);
+}
+
+/**
+ * Remove a member from a named group
+ */
+export function leaveGroup(name: string, member: GroupMember): void {
+  const members = groups.get(name);
+  if (!members) return;
+
+  members.delete(member);
+  if (members.size === 0) {
+    groups.delete(name);
+  }
+}
+
+/**
+ * Other members of a group
+ */
+export function getGroupPeers(name: string | undefined, member: GroupMember): GroupMember[] {
+  if (name === undefined) return [];
+  return [...(groups.get(name) ?? [])].filter((peer) => peer !== member);
+}
@@ -1,6 +1,6 @@
 /**
  * Centralized drag state management
- * Single source of truth for the current drag session
+ * Single source of truth for the current drag session(s)
  */
 import type {
   DragSession,
@@ -12,6 +12,9 @@ import type {
 import { EventEmitter } from '../utils/EventEmitter.js';
 import { SnapDataTransfer } from '../utils/DataTransfer.js';
 
+// Keeps session ids unique across the windows a bridged drag passes through
+const idPrefix = Math.random().toString(36).slice(2, 8);
+
 // Internal events
 interface StateEvents {
   dragstart: DragSession;
@@ -22,36 +25,80 @@ interface StateEvents {
   drop: DragSession;
 }
 
+export interface DragStateOptions {
+  /** Allow several concurrent sessions, e.g. one per touch (default: false) */
+  multiple?: boolean;
+}
+
 export class DragState extends EventEmitter<StateEvents> {
-  private _session: DragSession | null = null;
+  private _sessions = new Map<string, DragSession>();
+  private _multiple: boolean;
   private _idCounter = 0;
 
+  constructor(options: DragStateOptions = {}) {
+    super();
+    this._multiple = options.multiple ?? false;
+  }
+
+  /**
+   * Whether new sessions run alongside the current ones
+   */
+  get multiple(): boolean {
+    return this._multiple;
+  }
+
+  set multiple(multiple: boolean) {
+    this._multiple = multiple;
+  }
+
   /**
-   * Get current drag session (null if not dragging)
+   * Get current drag session, the most recently started one when there
+   * are several (null if not dragging)
    */
   get session(): DragSession | null {
-    return this._session;
+    let latest: DragSession | null = null;
+    for (const session of this._sessions.values()) {
+      latest = session;
+    }
+    return latest;
+  }
+
+  /**
+   * Get all active drag sessions, oldest first
+   */
+  get sessions(): DragSession[] {
+    return [...this._sessions.values()];
+  }
+
+  /**
+   * Get an active drag session by id
+   */
+  getSession(id: string): DragSession | null {
+    return this._sessions.get(id) ?? null;
   }
 
   /**
    * Check if currently dragging
    */
   isDragging(): boolean {
-    return this._session !== null && this._session.phase === 'dragging';
+    for (const session of this._sessions.values()) {
+      if (session.phase === 'dragging') return true;
+    }
+    return false;
   }
 
   /**
    * Get the element being dragged
    */
   getActiveElement(): HTMLElement | null {
-    return this._session?.element ?? null;
+    return this.session?.element ?? null;
   }
 
   /**
    * Get current drop zone
    */
   getCurrentDropZone(): HTMLElement | null {
-    return this._session?.dropZone ?? null;
+    return this.session?.dropZone ?? null;
   }
 
   /**
@@ -60,11 +107,12 @@ export class DragState extends EventEmitter<StateEvents> {
   startDrag(
     element: HTMLElement,
     origin: Point,
-    initialData?: Record<string, unknown>
+    initialData?: Record<string, unknown>,
+    elements: HTMLElement[] = [element]
   ): DragSession {
     // End any existing session
-    if (this._session) {
-      this.cancelDrag();
+    if (!this._multiple) {
+      this.reset();
     }
 
     const data = new SnapDataTransfer();
@@ -74,9 +122,10 @@ export class DragState extends EventEmitter<StateEvents> {
       }
     }
 
-    this._session = {
-      id: `drag-${++this._idCounter}`,
+    const session: DragSession = {
+      id: `drag-${idPrefix}-${++this._idCounter}`,
       element,
+      elements,
       origin: { x: origin.x, y: origin.y },
       current: { x: origin.x, y: origin.y },
       delta: { x: 0, y: 0 },
@@ -84,54 +133,54 @@ export class DragState extends EventEmitter<StateEvents> {
       dropZone: null,
       phase: 'dragging',
     };
+    this._sessions.set(session.id, session);
 
-    this.emit('dragstart', this._session);
-    return this._session;
+    this.emit('dragstart', session);
+    return session;
   }
 
   /**
    * Update position during drag
    */
-  updatePosition(point: Point): void {
-    if (!this._session || this._session.phase !== 'dragging') return;
+  updatePosition(point: Point, session = this.session): void {
+    if (!session || session.phase !== 'dragging') return;
 
-    this._session.current.x = point.x;
-    this._session.current.y = point.y;
-    this._session.delta.x = point.x - this._session.origin.x;
-    this._session.delta.y = point.y - this._session.origin.y;
+    session.current.x = point.x;
+    session.current.y = point.y;
+    session.delta.x = point.x - session.origin.x;
+    session.delta.y = point.y - session.origin.y;
 
-    this.emit('dragmove', this._session);
+    this.emit('dragmove', session);
   }
 
   /**
    * Set or clear drop zone target
    */
-  setDropTarget(zone: HTMLElement | null): void {
-    if (!this._session) return;
+  setDropTarget(zone: HTMLElement | null, session = this.session): void {
+    if (!session) return;
 
-    const previous = this._session.dropZone;
+    const previous = session.dropZone;
     if (previous === zone) return;
 
     // Emit leave for previous zone
     if (previous) {
-      this._session.dropZone = null;
-      this.emit('dropzoneleave', this._session);
+      session.dropZone = null;
+      this.emit('dropzoneleave', session);
     }
 
     // Emit enter for new zone
     if (zone) {
-      this._session.dropZone = zone;
-      this.emit('dropzoneenter', this._session);
+      session.dropZone = zone;
+      this.emit('dropzoneenter', session);
     }
   }
 
   /**
    * Complete the drag with a drop
    */
-  endDrag(): DragSession | null {
-    if (!this._session) return null;
+  endDrag(session = this.session): DragSession | null {
+    if (!session || !this._sessions.has(session.id)) return null;
 
-    const session = this._session;
     session.phase = 'dropping';
 
     // Emit drop if over a valid drop zone
@@ -140,7 +189,7 @@ export class DragState extends EventEmitter<StateEvents> {
     }
 
     this.emit('dragend', session);
-    this._session = null;
+    this._sessions.delete(session.id);
 
     return session;
   }
@@ -148,15 +197,14 @@ export class DragState extends EventEmitter<StateEvents> {
   /**
    * Cancel the current drag
    */
-  cancelDrag(): DragSession | null {
-    if (!this._session) return null;
+  cancelDrag(session = this.session): DragSession | null {
+    if (!session || !this._sessions.has(session.id)) return null;
 
-    const session = this._session;
     session.phase = 'cancelled';
     session.dropZone = null;
 
     this.emit('dragend', session);
-    this._session = null;
+    this._sessions.delete(session.id);
 
     return session;
   }
@@ -169,11 +217,11 @@ export class DragState extends EventEmitter<StateEvents> {
   }
 
   /**
-   * Reset state
+   * Reset state, cancelling every session
    */
   reset(): void {
-    if (this._session) {
-      this.cancelDrag();
+    for (const session of [...this._sessions.values()]) {
+      this.cancelDrag(session);
     }
   }
 
@@ -0,0 +1,103 @@
+/**
+ * DropAnimation moves the ghost onto the dragged element's final rect
+ * after a drop or cancel (dropAnimation option)
+ */
+import type { SnapOptions, DropAnimationOptions } from '../types/index.js';
+
+export class DropAnimation {
+  private _options: SnapOptions;
+
+  // Ghosts still animating to their final position, keyed to their finishers
+  private _running = new Map<HTMLElement, () => void>();
+
+  constructor(options: SnapOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Duration and easing, or null when the option is off
+   * or the user prefers reduced motion
+   */
+  getOptions(): Required<DropAnimationOptions> | null {
+    const option = this._options.dropAnimation;
+    if (!option) return null;
+
+    // Respect the user's reduced motion preference
+    if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      return null;
+    }
+
+    return {
+      duration: 200,
+      easing: 'ease',
+      ...(option === true ? {} : option),
+    };
+  }
+
+  /**
+   * Transition the ghost onto the element's current rect, then remove it.
+   * The dragged elements stay hidden until the ghost lands.
+   */
+  animate(ghost: HTMLElement | null, element: HTMLElement, elements: HTMLElement[]): Promise<void> {
+    const options = this.getOptions();
+
+    // Bridged copies that weren't inserted have nowhere to land
+    if (!ghost || !options || !element.isConnected) {
+      ghost?.remove();
+      return Promise.resolve();
+    }
+
+    const rect = element.getBoundingClientRect();
+    const visibility = elements.map((el) => el.style.visibility);
+    for (const el of elements) {
+      el.style.visibility = 'hidden';
+    }
+
+    return new Promise<void>((resolve) => {
+      let timer = 0;
+
+      const finish = (): void => {
+        if (!this._running.delete(ghost)) return;
+
+        clearTimeout(timer);
+        ghost.removeEventListener('transitionend', onTransitionEnd);
+        ghost.remove();
+        elements.forEach((el, i) => {
+          el.style.visibility = visibility[i];
+        });
+        resolve();
+      };
+
+      const onTransitionEnd = (e: TransitionEvent): void => {
+        if (e.target === ghost && e.propertyName === 'transform') finish();
+      };
+
+      this._running.set(ghost, finish);
+      ghost.addEventListener('transitionend', onTransitionEnd);
+
+      // Fallback in case transitionend never fires (e.g. no movement)
+      timer = window.setTimeout(finish, options.duration + 50);
+
+      const transition = `${options.duration}ms ${options.easing}`;
+      ghost.style.transition = [
+        `transform ${transition}`,
+        `width ${transition}`,
+        `height ${transition}`,
+        `opacity ${transition}`,
+      ].join(', ');
+      ghost.style.transform = `translate(${rect.left}px, ${rect.top}px)`;
+      ghost.style.width = `${rect.width}px`;
+      ghost.style.height = `${rect.height}px`;
+      ghost.style.opacity = '1';
+    });
+  }
+
+  /**
+   * Land every running animation right away
+   */
+  finishAll(): void {
+    for (const finish of [...this._running.values()]) {
+      finish();
+    }
+  }
+}
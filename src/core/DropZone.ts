@@ -2,8 +2,15 @@
  * DropZone manages individual drop target areas
  * Handles hit testing and insertion index calculation
  */
-import type { DataTransfer, DropZoneOptions, Point } from '../types/index.js';
+import type {
+  DataTransfer,
+  DropEvent,
+  DropZoneOptions,
+  DropZoneEnterEvent,
+  DropZoneLeaveEvent,
+} from '../types/index.js';
 import { boundsCache, pointInRect, rectCenter } from '../utils/BoundsCache.js';
+import { getInsertionIndex } from '../utils/Layout.js';
 
 export class DropZone {
   private _element: HTMLElement;
@@ -50,27 +57,25 @@ export class DropZone {
   accepts(data: DataTransfer): boolean {
     const { accepts } = this._options;
 
-    if (!accepts) return true;
-
     if (typeof accepts === 'function') {
       return accepts(data);
     }
 
+    // Check data-accepts attribute on element
+    const elementAccepts = this._element.dataset.accepts;
+
+    // No restrictions configured
+    if (!accepts && !elementAccepts) return true;
+
     // Array of type strings
-    for (const type of accepts) {
-      if (data.hasType(type) || data.getData('type') === type) {
-        return true;
-      }
+    if (accepts && this._matchesType(data, accepts)) {
+      return true;
     }
 
-    // Check data-accepts attribute on element
-    const elementAccepts = this._element.dataset.accepts;
     if (elementAccepts) {
       const acceptedTypes = elementAccepts.split(',').map((s) => s.trim());
-      for (const type of acceptedTypes) {
-        if (data.hasType(type) || data.getData('type') === type) {
-          return true;
-        }
+      if (this._matchesType(data, acceptedTypes)) {
+        return true;
       }
     }
 
@@ -92,6 +97,64 @@ export class DropZone {
     }
   }
 
+  /**
+   * Flag the zone as rejecting the current drag
+   */
+  setRejected(rejected: boolean): void {
+    this._element.classList.toggle('snap-drop-rejected', rejected);
+  }
+
+  /**
+   * Activate the zone and notify its onEnter callback
+   */
+  enter(event: DropZoneEnterEvent): void {
+    this.setActive(true);
+    this._options.onEnter?.(event);
+  }
+
+  /**
+   * Deactivate the zone and notify its onLeave callback
+   */
+  leave(event: DropZoneLeaveEvent): void {
+    this.setActive(false);
+    this._options.onLeave?.(event);
+  }
+
+  /**
+   * Notify the onDrop callback
+   */
+  drop(event: DropEvent): void {
+    this._options.onDrop?.(event);
+  }
+
+  /**
+   * Whether this zone receives events bubbled up from nested zones
+   */
+  get bubbles(): boolean {
+    return this._options.bubble ?? false;
+  }
+
+  /**
+   * Notify onEnter for a drag entering a nested zone
+   */
+  bubbleEnter(event: DropZoneEnterEvent): void {
+    if (this.bubbles) this._options.onEnter?.(event);
+  }
+
+  /**
+   * Notify onLeave for a drag leaving a nested zone
+   */
+  bubbleLeave(event: DropZoneLeaveEvent): void {
+    if (this.bubbles) this._options.onLeave?.(event);
+  }
+
+  /**
+   * Notify onDrop for a drop into a nested zone
+   */
+  bubbleDrop(event: DropEvent): void {
+    if (this.bubbles) this.drop(event);
+  }
+
   /**
    * Calculate insertion index for sortable behavior
    * Returns the index where an item should be inserted based on position
@@ -106,25 +169,11 @@ export class DropZone {
       this._element.querySelectorAll<HTMLElement>(itemSelector)
     ).filter((el) => el !== excludeElement);
 
-    if (items.length === 0) return 0;
-
-    // Determine if list is vertical or horizontal
-    const firstRect = boundsCache.get(items[0]);
-    const lastRect = boundsCache.get(items[items.length - 1]);
-    const isVertical = Math.abs(lastRect.top - firstRect.top) > Math.abs(lastRect.left - firstRect.left);
-
-    for (let i = 0; i < items.length; i++) {
-      const rect = boundsCache.get(items[i]);
-      const center = rectCenter(rect);
-
-      if (isVertical) {
-        if (y < center.y) return i;
-      } else {
-        if (x < center.x) return i;
-      }
-    }
-
-    return items.length;
+    return getInsertionIndex(
+      items.map((item) => boundsCache.get(item)),
+      x,
+      y
+    );
   }
 
   /**
@@ -171,6 +220,15 @@ export class DropZone {
     return { element: closestItem, position };
   }
 
+  private _matchesType(data: DataTransfer, types: string[]): boolean {
+    for (const type of types) {
+      if (data.hasType(type) || data.getData('type') === type) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Force update cached bounds
    */
@@ -183,6 +241,7 @@ export class DropZone {
    */
   destroy(): void {
     this.setActive(false);
+    this.setRejected(false);
     boundsCache.remove(this._element);
   }
 }
@@ -240,6 +299,41 @@ export class DropZoneManager {
     return [...this._zones.values()];
   }
 
+  /**
+   * Nearest registered drop zone containing the element (crosses shadow roots)
+   */
+  getParent(element: HTMLElement): HTMLElement | null {
+    let current = this._getParentElement(element);
+    while (current) {
+      if (this._zones.has(current)) return current;
+      current = this._getParentElement(current);
+    }
+    return null;
+  }
+
+  /**
+   * The element followed by its ancestor drop zones, innermost first
+   */
+  getPath(element: HTMLElement): HTMLElement[] {
+    const path = [element];
+    let parent = this.getParent(element);
+    while (parent) {
+      path.push(parent);
+      parent = this.getParent(parent);
+    }
+    return path;
+  }
+
+  private _getParentElement(element: HTMLElement): HTMLElement | null {
+    if (element.parentElement) return element.parentElement;
+
+    const root = element.getRootNode();
+    if (root instanceof ShadowRoot && root.host instanceof HTMLElement) {
+      return root.host;
+    }
+    return null;
+  }
+
   /**
    * Find drop zone at point
    */
@@ -0,0 +1,231 @@
+/**
+ * Feature registry - maps SnapOptions flags to the plugins and behaviors
+ * they install, to the inputs (extra sensors) DragEngine wires in, and to
+ * the collision strategies and extensions Snap and DragEngine look up.
+ * The full bundle registers the built-in features; the core bundle
+ * registers none, so the flags there are inert and core stays small.
+ */
+import type {
+  SnapOptions,
+  Plugin,
+  Behavior,
+  Point,
+  DataTransfer,
+  DragSession,
+  ItemOptions,
+  CollisionStrategy,
+  CollisionDetector,
+} from '../types/index.js';
+import type { DropZone } from './DropZone.js';
+import type { ClickSelection, SelectionHost } from './Selection.js';
+import type { GroupMember } from './DragGroup.js';
+import type { DropAnimation } from './DropAnimation.js';
+
+// Options that install a plugin or behavior
+export type FeatureOption =
+  | 'sortable'
+  | 'kanban'
+  | 'fileDrop'
+  | 'canvas'
+  | 'autoScroll'
+  | 'announcements';
+
+export const featureOptions: FeatureOption[] = [
+  'sortable',
+  'kanban',
+  'fileDrop',
+  'canvas',
+  'autoScroll',
+  'announcements',
+];
+
+// Object form of a flag (`true` is passed as `{}`)
+export type FeatureConfig<K extends FeatureOption> = Exclude<SnapOptions[K], boolean | undefined>;
+
+export type FeatureFactory<K extends FeatureOption> =
+  | {
+      type: 'plugin';
+      /** Plugin name, used to skip auto-install when the user calls use() */
+      name: string;
+      create: (config: FeatureConfig<K>) => Plugin;
+    }
+  | {
+      type: 'behavior';
+      /** Behavior name, used to skip auto-install when the user calls addBehavior() */
+      name: string;
+      create: (config: FeatureConfig<K>) => Behavior;
+    };
+
+const registry: { [K in FeatureOption]?: FeatureFactory<K> } = {};
+
+/**
+ * Register the plugin or behavior a SnapOptions flag installs
+ */
+export function registerFeature<K extends FeatureOption>(
+  option: K,
+  factory: FeatureFactory<K>
+): void {
+  (registry as Record<K, FeatureFactory<K>>)[option] = factory;
+}
+
+/**
+ * Get the factory registered for a SnapOptions flag
+ */
+export function getFeature<K extends FeatureOption>(option: K): FeatureFactory<K> | undefined {
+  return registry[option] as FeatureFactory<K> | undefined;
+}
+
+// Options that add an input to DragEngine
+export type InputOption = 'keyboard' | 'bridge' | 'native';
+
+export const inputOptions: InputOption[] = ['keyboard', 'bridge', 'native'];
+
+// Object form of an input option (`true` is passed as `{}`)
+export type InputConfig<K extends InputOption> = Exclude<SnapOptions[K], boolean | undefined>;
+
+/**
+ * Ghost geometry and data of a drag carried over from another document
+ */
+export interface BridgedStart {
+  data: Record<string, unknown>;
+  /** Element to render the ghost from */
+  ghostSource: HTMLElement;
+  /** Where the ghost starts, in this viewport */
+  rect: { left: number; top: number; width: number; height: number };
+}
+
+/**
+ * What an input can see and drive in the DragEngine that installed it.
+ * Inputs drive at most one drag, without a pointer id.
+ */
+export interface InputHost {
+  readonly container: HTMLElement | ShadowRoot;
+  /** Live options of the Snap instance */
+  readonly options: SnapOptions;
+  /** Check if any drag is in progress */
+  isDragging(): boolean;
+  /** Start a drag (with the element's selection group), returns false if it didn't start */
+  start(element: HTMLElement, position: Point, bridged?: BridgedStart): boolean;
+  move(position: Point): void;
+  drop(position: Point): void;
+  cancel(position: Point): void;
+  getDraggables(): HTMLElement[];
+  getDropZones(): HTMLElement[];
+  getDropZone(element: HTMLElement): DropZone;
+  /** Drop zone and its ancestor drop zones, innermost first */
+  getDropZonePath(element: HTMLElement): HTMLElement[];
+  getItemOptions(element: HTMLElement): ItemOptions | undefined;
+  /** Registered item data, or the element's data-drag-* attributes */
+  getItemData(element: HTMLElement): Record<string, unknown>;
+  /** First zone at a point that accepts the data, using the collision option */
+  findDropZone(position: Point, data: DataTransfer): HTMLElement | null;
+}
+
+/**
+ * Carries a drag somewhere else while the pointer is there (e.g. an iframe)
+ */
+export interface DragRelay {
+  /** Forward a move, returns true while the other side has the drag */
+  move(
+    session: DragSession,
+    pointer: Point,
+    offset: Point,
+    size: { width: number; height: number }
+  ): boolean;
+  /** Drop on the other side, returns false if it doesn't have the drag */
+  drop(pointer: Point): boolean;
+  /** Take the drag back */
+  leave(): void;
+}
+
+export interface Input {
+  attach(): void;
+  detach(): void;
+  destroy(): void;
+  /** Pointers over matching elements are left alone (e.g. native drag handles) */
+  readonly ignoreSelector?: string;
+  /** A pointer drag is starting, drop whatever this input was driving */
+  interrupt?(): void;
+  /** Relay for a drag that just started */
+  createRelay?(): DragRelay;
+}
+
+export type InputFactory<K extends InputOption> = (
+  host: InputHost,
+  config: InputConfig<K>
+) => Input;
+
+const inputs: { [K in InputOption]?: InputFactory<K> } = {};
+
+/**
+ * Register the input a SnapOptions flag adds to DragEngine
+ */
+export function registerInput<K extends InputOption>(option: K, factory: InputFactory<K>): void {
+  (inputs as Record<K, InputFactory<K>>)[option] = factory;
+}
+
+/**
+ * Get the factory registered for an input option
+ */
+export function getInput<K extends InputOption>(option: K): InputFactory<K> | undefined {
+  return inputs[option] as InputFactory<K> | undefined;
+}
+
+const collisions: { [K in CollisionStrategy]?: CollisionDetector } = {};
+
+/**
+ * Register the detector a collision option value selects
+ * (pointer-within is built in)
+ */
+export function registerCollision(strategy: CollisionStrategy, detector: CollisionDetector): void {
+  collisions[strategy] = detector;
+}
+
+/**
+ * Get the detector registered for a collision option value
+ */
+export function getCollision(strategy: CollisionStrategy): CollisionDetector | undefined {
+  return collisions[strategy];
+}
+
+/**
+ * Code behind options that Snap and DragEngine call into directly,
+ * keyed by the option
+ */
+export interface Extensions {
+  /** Selection for select() and Ctrl/Cmd- and Shift-click */
+  multiSelect: {
+    create(host: SelectionHost): ClickSelection;
+    /** Ghost for several items dragged together */
+    stackGhost(ghost: HTMLElement, count: number): HTMLElement;
+  };
+  /** Drop zones shared between instances in the same group */
+  group: {
+    joinGroup(name: string, member: GroupMember): void;
+    leaveGroup(name: string, member: GroupMember): void;
+    getGroupPeers(name: string | undefined, member: GroupMember): GroupMember[];
+  };
+  /** Ghost flying into place after a drop or cancel */
+  dropAnimation: (options: SnapOptions) => DropAnimation;
+}
+
+export type ExtensionOption = keyof Extensions;
+
+const extensions: Partial<Extensions> = {};
+
+/**
+ * Register the code an option needs in Snap or DragEngine
+ */
+export function registerExtension<K extends ExtensionOption>(
+  option: K,
+  extension: Extensions[K]
+): void {
+  extensions[option] = extension;
+}
+
+/**
+ * Get the extension registered for an option
+ */
+export function getExtension<K extends ExtensionOption>(option: K): Extensions[K] | undefined {
+  return extensions[option];
+}
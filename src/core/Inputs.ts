@@ -0,0 +1,258 @@
+/**
+ * Inputs - the optional sensors behind the keyboard, bridge and native
+ * options, wired into DragEngine through its InputHost. The full bundle
+ * registers them; core leaves them out.
+ */
+import type {
+  KeyboardOptions,
+  BridgeOptions,
+  NativeDragOptions,
+  DataTransfer,
+  Point,
+} from '../types/index.js';
+import type { Input, InputHost, DragRelay } from './Features.js';
+import { KeyboardSensor } from '../sensors/KeyboardSensor.js';
+import { BridgeSensor } from '../sensors/BridgeSensor.js';
+import {
+  NativeSensor,
+  type NativeOverEvent,
+  type NativeDropEvent,
+  type NativeStartEvent,
+} from '../sensors/NativeSensor.js';
+import { DragBridge, serializeData } from './DragBridge.js';
+import { SnapDataTransfer } from '../utils/DataTransfer.js';
+
+/**
+ * Keyboard drag and drop for focused draggables
+ */
+export class KeyboardInput implements Input {
+  private _sensor: KeyboardSensor;
+
+  constructor(host: InputHost, options: KeyboardOptions) {
+    this._sensor = new KeyboardSensor({
+      ...options,
+      container: host.container,
+      draggableSelector: host.options.draggableSelector ?? '[data-draggable]',
+      getTargets: () => [...new Set([...host.getDraggables(), ...host.getDropZones()])],
+      getItemOptions: (element) => host.getItemOptions(element),
+    });
+
+    this._sensor.on('dragstart', (event) => {
+      // Another drag is in progress, or onDragStart cancelled this one
+      if (host.isDragging() || !host.start(event.element, event.position)) {
+        this._sensor.reset();
+      }
+    });
+    this._sensor.on('dragmove', (event) => host.move(event.position));
+    this._sensor.on('drop', (event) => host.drop(event.position));
+    this._sensor.on('cancel', (event) => host.cancel(event.position));
+  }
+
+  attach(): void {
+    this._sensor.attach();
+  }
+
+  detach(): void {
+    this._sensor.detach();
+  }
+
+  /**
+   * Pointer takes over from an in-progress keyboard drag
+   */
+  interrupt(): void {
+    this._sensor.cancel();
+  }
+
+  destroy(): void {
+    this._sensor.destroy();
+  }
+}
+
+/**
+ * Drags carried to and from same-origin iframes and popups
+ */
+export class BridgeInput implements Input {
+  private _sensor: BridgeSensor;
+  private _document: Document;
+  private _options: BridgeOptions;
+
+  constructor(host: InputHost, options: BridgeOptions) {
+    this._options = options;
+    this._document = host.container.ownerDocument ?? document;
+    this._sensor = new BridgeSensor({ container: host.container });
+
+    this._sensor.on('enter', (event) => {
+      // The element is a copy imported from the source document
+      const started =
+        !host.isDragging() &&
+        host.start(event.element, event.position, {
+          data: event.data,
+          ghostSource: event.source,
+          rect: event.rect,
+        });
+
+      // A local drag is in progress, or onDragStart cancelled this one
+      if (!started) {
+        this._sensor.reset();
+      }
+    });
+    this._sensor.on('move', (event) => host.move(event.position));
+    this._sensor.on('drop', (event) => host.drop(event.position));
+    this._sensor.on('leave', (event) => host.cancel(event.position));
+  }
+
+  attach(): void {
+    this._sensor.attach();
+  }
+
+  detach(): void {
+    this._sensor.detach();
+  }
+
+  /**
+   * Every drag that starts here can be carried into other documents
+   */
+  createRelay(): DragRelay {
+    return new DragBridge(this._document, this._options);
+  }
+
+  destroy(): void {
+    this._sensor.destroy();
+  }
+}
+
+/**
+ * Native HTML5 drags in from other apps and out through export handles
+ */
+export class NativeInput implements Input {
+  readonly ignoreSelector: string;
+  private _host: InputHost;
+  private _options: NativeDragOptions;
+  private _sensor: NativeSensor;
+  private _zone: HTMLElement | null = null;
+
+  constructor(host: InputHost, options: NativeDragOptions) {
+    this._host = host;
+    this._options = options;
+    // The pointer sensor leaves export handles to the browser
+    this.ignoreSelector = options.exportHandle ?? '[data-native-drag]';
+    this._sensor = new NativeSensor({
+      container: host.container,
+      accept: options.accept ?? ['text/plain', 'text/uri-list', 'text/html'],
+      exportHandle: this.ignoreSelector,
+    });
+
+    this._sensor.on('dragover', this._onOver);
+    this._sensor.on('dragleave', () => this._setZone(null));
+    this._sensor.on('drop', this._onDrop);
+    this._sensor.on('dragstart', this._onStart);
+  }
+
+  attach(): void {
+    this._sensor.attach();
+  }
+
+  detach(): void {
+    this._sensor.detach();
+    this._setZone(null);
+  }
+
+  destroy(): void {
+    this._sensor.destroy();
+  }
+
+  private _onOver = (event: NativeOverEvent): void => {
+    // Only types are readable until the drop
+    const data = new SnapDataTransfer();
+    for (const type of event.types) {
+      data.setData(type, '');
+    }
+
+    const zone = this._findZone(event.position, data);
+    this._setZone(zone);
+    if (zone) event.accept();
+  };
+
+  private _onDrop = (event: NativeDropEvent): void => {
+    const data = new SnapDataTransfer();
+    for (const [type, value] of Object.entries(event.data)) {
+      data.setData(type, value);
+    }
+
+    const zone = this._findZone(event.position, data);
+    this._setZone(null);
+    if (!zone) return;
+
+    this._host.options.onNativeDrop?.({
+      dropZone: zone,
+      position: event.position,
+      data,
+      path: this._host.getDropZonePath(zone),
+    });
+  };
+
+  /**
+   * Fill an outgoing native drag from the item the export handle belongs to
+   */
+  private _onStart = (event: NativeStartEvent): void => {
+    // Innermost draggable containing the handle
+    const owners = this._host.getDraggables().filter((el) => el.contains(event.handle));
+    const element = owners.find((el) => !owners.some((other) => other !== el && el.contains(other)));
+    if (!element) return;
+
+    const data = new SnapDataTransfer();
+    for (const [type, value] of Object.entries(this._host.getItemData(element))) {
+      data.setData(type, value);
+    }
+
+    const toNative = this._options.toNative ?? toNativeData;
+    for (const [type, value] of Object.entries(toNative(data, element))) {
+      event.dataTransfer.setData(type, value);
+    }
+    event.dataTransfer.effectAllowed = 'copy';
+
+    // Drag image is the whole item, grabbed where the pointer is
+    const rect = element.getBoundingClientRect();
+    event.dataTransfer.setDragImage(
+      element,
+      event.originalEvent.clientX - rect.left,
+      event.originalEvent.clientY - rect.top
+    );
+  };
+
+  private _findZone(position: Point, data: DataTransfer): HTMLElement | null {
+    // A Snap drag has the pointer
+    if (this._host.isDragging()) return null;
+
+    return this._host.findDropZone(position, data);
+  }
+
+  private _setZone(zone: HTMLElement | null): void {
+    if (zone === this._zone) return;
+
+    if (this._zone) {
+      this._host.getDropZone(this._zone).setActive(false);
+    }
+    this._zone = zone;
+    if (zone) {
+      this._host.getDropZone(zone).setActive(true);
+    }
+  }
+}
+
+/**
+ * Default native data: the item's text, its url and a JSON copy of its data
+ */
+function toNativeData(data: DataTransfer, element: HTMLElement): Record<string, string> {
+  const text = data.getData('text');
+  const url = data.getData('url') ?? data.getData('href');
+
+  const result: Record<string, string> = {
+    'text/plain': typeof text === 'string' ? text : (element.textContent ?? '').trim(),
+    'application/x-snap+json': JSON.stringify(serializeData(data)),
+  };
+  if (typeof url === 'string') {
+    result['text/uri-list'] = url;
+  }
+  return result;
+}
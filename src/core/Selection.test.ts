@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SnapOptions } from '../types/index.js';
+import { SelectionManager, ClickSelection, sortByDocumentPosition } from './Selection.js';
+
+function createList(count: number): HTMLElement[] {
+  document.body.innerHTML = '';
+  const items: HTMLElement[] = [];
+  for (let i = 0; i < count; i++) {
+    const item = document.createElement('div');
+    item.textContent = `Item ${i}`;
+    document.body.appendChild(item);
+    items.push(item);
+  }
+  return items;
+}
+
+describe('SelectionManager', () => {
+  let items: HTMLElement[];
+  let onChange: ReturnType<typeof vi.fn>;
+  let selection: SelectionManager;
+
+  beforeEach(() => {
+    items = createList(5);
+    onChange = vi.fn();
+    selection = new SelectionManager({ selectedClass: 'snap-selected', onChange });
+  });
+
+  it('returns the selection in document order', () => {
+    selection.select([items[3], items[0], items[2]]);
+
+    expect(selection.elements).toEqual([items[0], items[2], items[3]]);
+    expect(selection.size).toBe(3);
+    expect(items[3].classList.contains('snap-selected')).toBe(true);
+  });
+
+  it('only notifies when the selection changes', () => {
+    selection.select([items[1]]);
+    selection.select([items[1]]);
+    selection.deselect([items[2]]);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith([items[1]]);
+  });
+
+  it('toggles and replaces the selection', () => {
+    selection.toggle(items[0]);
+    selection.toggle(items[1]);
+    selection.toggle(items[0]);
+    expect(selection.elements).toEqual([items[1]]);
+
+    selection.selectOnly(items[4]);
+    expect(selection.elements).toEqual([items[4]]);
+    expect(items[1].classList.contains('snap-selected')).toBe(false);
+  });
+
+  it('selects a range from the anchor in either direction', () => {
+    selection.selectOnly(items[1]);
+    selection.selectRange(items[3], items);
+    expect(selection.elements).toEqual([items[1], items[2], items[3]]);
+
+    // The anchor stays, so a second range extends from the same item
+    selection.selectRange(items[0], items);
+    expect(selection.elements).toEqual([items[0], items[1], items[2], items[3]]);
+  });
+
+  it('falls back to selecting one item without an anchor', () => {
+    selection.selectRange(items[2], items);
+
+    expect(selection.elements).toEqual([items[2]]);
+  });
+
+  it('sets aria-selected only on roles that support it', () => {
+    items[0].setAttribute('role', 'option');
+    selection.select([items[0], items[1]]);
+
+    expect(items[0].getAttribute('aria-selected')).toBe('true');
+    expect(items[1].hasAttribute('aria-selected')).toBe(false);
+
+    selection.clear();
+    expect(items[0].hasAttribute('aria-selected')).toBe(false);
+  });
+
+  it('leaves removed elements out and prunes them', () => {
+    selection.select([items[0], items[1], items[2]]);
+    onChange.mockClear();
+    items[1].remove();
+
+    expect(selection.elements).toEqual([items[0], items[2]]);
+    expect(selection.size).toBe(2);
+
+    selection.prune();
+    expect(selection.has(items[1])).toBe(false);
+    expect(items[1].classList.contains('snap-selected')).toBe(false);
+    expect(onChange).toHaveBeenCalledWith([items[0], items[2]]);
+  });
+
+  it('unmarks everything on destroy without notifying', () => {
+    selection.select([items[0], items[1]]);
+    onChange.mockClear();
+    selection.destroy();
+
+    expect(selection.size).toBe(0);
+    expect(items[0].classList.contains('snap-selected')).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('ClickSelection', () => {
+  let items: HTMLElement[];
+  let options: SnapOptions;
+  let selection: ClickSelection;
+
+  beforeEach(() => {
+    items = createList(4);
+    options = { multiSelect: true, onSelectionChange: vi.fn() };
+    selection = new ClickSelection({
+      options,
+      target: document.body,
+      isDraggable: (el) => items.includes(el),
+      getDraggables: () => items,
+    });
+  });
+
+  function click(target: HTMLElement, init: MouseEventInit = {}): void {
+    target.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true, ...init }));
+  }
+
+  it('selects with plain, Ctrl and Shift clicks', () => {
+    click(items[0]);
+    click(items[2], { ctrlKey: true });
+    expect(selection.elements).toEqual([items[0], items[2]]);
+
+    click(items[3], { shiftKey: true });
+    expect(selection.elements).toEqual([items[0], items[2], items[3]]);
+    expect(options.onSelectionChange).toHaveBeenLastCalledWith({
+      selected: [items[0], items[2], items[3]],
+    });
+
+    // Empty space clears it
+    click(document.body);
+    expect(selection.size).toBe(0);
+  });
+
+  it('ignores clicks while multiSelect is off and after a drag', () => {
+    vi.useFakeTimers();
+    options.multiSelect = false;
+    click(items[0]);
+    expect(selection.size).toBe(0);
+
+    options.multiSelect = true;
+    selection.suppressClick();
+    click(items[0]);
+    expect(selection.size).toBe(0);
+
+    vi.advanceTimersByTime(0);
+    click(items[0]);
+    expect(selection.elements).toEqual([items[0]]);
+    vi.useRealTimers();
+  });
+
+  it('stops listening on destroy', () => {
+    selection.destroy();
+
+    click(items[0]);
+    expect(selection.size).toBe(0);
+  });
+});
+
+describe('sortByDocumentPosition', () => {
+  it('orders nested and sibling elements as they appear in the document', () => {
+    const [a, b] = createList(2);
+    const child = document.createElement('span');
+    a.appendChild(child);
+
+    expect(sortByDocumentPosition([b, child, a])).toEqual([a, child, b]);
+  });
+});
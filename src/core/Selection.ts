@@ -0,0 +1,331 @@
+/**
+ * SelectionManager tracks selected draggables for multi-item drags
+ * Keeps selection in document order so groups move in a stable order
+ */
+import type { SnapOptions } from '../types/index.js';
+
+// Roles aria-selected is valid on
+const selectableRoles = new Set(['option', 'row', 'gridcell', 'tab', 'treeitem']);
+
+export interface SelectionOptions {
+  selectedClass: string;
+  onChange: (selected: HTMLElement[]) => void;
+}
+
+/**
+ * Sort elements by their position in the document
+ */
+export function sortByDocumentPosition(elements: HTMLElement[]): HTMLElement[] {
+  return elements.sort((a, b) =>
+    a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+export class SelectionManager {
+  private _options: SelectionOptions;
+  private _selected = new Set<HTMLElement>();
+  private _anchor: HTMLElement | null = null;
+
+  constructor(options: SelectionOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Selected elements in document order
+   */
+  get elements(): HTMLElement[] {
+    return sortByDocumentPosition([...this._selected].filter((el) => el.isConnected));
+  }
+
+  /**
+   * Number of selected elements
+   */
+  get size(): number {
+    let size = 0;
+    for (const element of this._selected) {
+      if (element.isConnected) size++;
+    }
+    return size;
+  }
+
+  /**
+   * Check if an element is selected
+   */
+  has(element: HTMLElement): boolean {
+    return this._selected.has(element);
+  }
+
+  /**
+   * Add elements to the selection
+   */
+  select(elements: HTMLElement[]): void {
+    let changed = false;
+    for (const element of elements) {
+      if (this._selected.has(element)) continue;
+      this._selected.add(element);
+      element.classList.add(this._options.selectedClass);
+      if (selectableRoles.has(element.getAttribute('role') ?? '')) {
+        element.setAttribute('aria-selected', 'true');
+      }
+      changed = true;
+    }
+
+    if (elements.length > 0) {
+      this._anchor = elements[elements.length - 1];
+    }
+    if (changed) this._notify();
+  }
+
+  /**
+   * Remove elements from the selection
+   */
+  deselect(elements: HTMLElement[]): void {
+    let changed = false;
+    for (const element of elements) {
+      if (!this._selected.delete(element)) continue;
+      this._unmark(element);
+      changed = true;
+    }
+
+    if (this._anchor && !this._selected.has(this._anchor)) {
+      this._anchor = null;
+    }
+    if (changed) this._notify();
+  }
+
+  /**
+   * Select only the given element
+   */
+  selectOnly(element: HTMLElement): void {
+    if (this._selected.size === 1 && this._selected.has(element)) {
+      this._anchor = element;
+      return;
+    }
+
+    for (const selected of this._selected) {
+      if (selected !== element) this._unmark(selected);
+    }
+    this._selected.clear();
+    this.select([element]);
+  }
+
+  /**
+   * Toggle an element (Ctrl/Cmd-click)
+   */
+  toggle(element: HTMLElement): void {
+    if (this._selected.has(element)) {
+      this.deselect([element]);
+    } else {
+      this.select([element]);
+    }
+  }
+
+  /**
+   * Select the range between the anchor and an element (Shift-click)
+   * Candidates are the ordered items the range is taken from
+   */
+  selectRange(element: HTMLElement, candidates: HTMLElement[]): void {
+    const anchor = this._anchor;
+    const from = anchor ? candidates.indexOf(anchor) : -1;
+    const to = candidates.indexOf(element);
+
+    if (from === -1 || to === -1) {
+      this.selectOnly(element);
+      return;
+    }
+
+    const [start, end] = from < to ? [from, to] : [to, from];
+    this.select(candidates.slice(start, end + 1));
+
+    // Keep the original anchor so the range can be adjusted
+    this._anchor = anchor;
+  }
+
+  /**
+   * Drop elements that were removed from the document
+   */
+  prune(): void {
+    let changed = false;
+    for (const element of this._selected) {
+      if (element.isConnected) continue;
+      this._selected.delete(element);
+      this._unmark(element);
+      changed = true;
+    }
+
+    if (this._anchor && !this._selected.has(this._anchor)) {
+      this._anchor = null;
+    }
+    if (changed) this._notify();
+  }
+
+  /**
+   * Clear the selection
+   */
+  clear(): void {
+    if (this._selected.size === 0) return;
+
+    for (const element of this._selected) {
+      this._unmark(element);
+    }
+    this._selected.clear();
+    this._anchor = null;
+    this._notify();
+  }
+
+  private _unmark(element: HTMLElement): void {
+    element.classList.remove(this._options.selectedClass);
+    element.removeAttribute('aria-selected');
+  }
+
+  private _notify(): void {
+    this._options.onChange(this.elements);
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(): void {
+    for (const element of this._selected) {
+      this._unmark(element);
+    }
+    this._selected.clear();
+    this._anchor = null;
+  }
+}
+
+/**
+ * What click selection sees of the Snap instance it belongs to
+ */
+export interface SelectionHost {
+  /** Live options of the Snap instance */
+  readonly options: SnapOptions;
+  /** Element clicks are listened for on */
+  readonly target: HTMLElement;
+  isDraggable(element: HTMLElement): boolean;
+  getDraggables(): HTMLElement[];
+}
+
+/**
+ * Selection of a Snap instance, with Ctrl/Cmd-click and Shift-click
+ * handling while the multiSelect option is on
+ */
+export class ClickSelection extends SelectionManager {
+  private _host: SelectionHost;
+  private _suppressClick = false;
+
+  constructor(host: SelectionHost) {
+    const multiSelect = host.options.multiSelect;
+    super({
+      selectedClass:
+        (typeof multiSelect === 'object' && multiSelect.selectedClass) || 'snap-selected',
+      onChange: (selected) => host.options.onSelectionChange?.({ selected }),
+    });
+    this._host = host;
+    host.target.addEventListener('click', this._onClick);
+  }
+
+  /**
+   * Ignore the click that ends a drag
+   */
+  suppressClick(): void {
+    this._suppressClick = true;
+    setTimeout(() => {
+      this._suppressClick = false;
+    }, 0);
+  }
+
+  private _onClick = (e: MouseEvent): void => {
+    if (!this._host.options.multiSelect || this._suppressClick) return;
+
+    // Find the clicked draggable (composedPath for shadow DOM)
+    let draggable: HTMLElement | null = null;
+    for (const el of e.composedPath()) {
+      if (!(el instanceof HTMLElement)) continue;
+      if (el === this._host.target) break;
+      if (this._host.isDraggable(el)) {
+        draggable = el;
+        break;
+      }
+    }
+
+    if (!draggable) {
+      // Clicking empty space clears the selection
+      if (!e.ctrlKey && !e.metaKey && !e.shiftKey) {
+        this.clear();
+      }
+      return;
+    }
+
+    if (e.shiftKey) {
+      // Ranges are taken from the clicked item's siblings
+      const parent = draggable.parentElement;
+      const siblings = this._host.getDraggables().filter((el) => el.parentElement === parent);
+      this.selectRange(draggable, siblings);
+    } else if (e.ctrlKey || e.metaKey) {
+      this.toggle(draggable);
+    } else {
+      this.selectOnly(draggable);
+    }
+  };
+
+  /**
+   * Cleanup
+   */
+  override destroy(): void {
+    this._host.target.removeEventListener('click', this._onClick);
+    super.destroy();
+  }
+}
+
+/**
+ * Stacked ghost with a count badge for several items dragged together
+ */
+export function createStackedGhost(content: HTMLElement, count: number): HTMLElement {
+  const stack = document.createElement('div');
+  stack.className = 'snap-ghost-stack';
+  stack.style.overflow = 'visible';
+
+  const layerStyle = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    margin: 0;
+    box-sizing: border-box;
+  `;
+
+  // Offset copies behind the dragged item hint at the group
+  const layers = Math.min(count, 3);
+  for (let i = layers - 1; i > 0; i--) {
+    const layer = content.cloneNode(true) as HTMLElement;
+    layer.style.cssText += layerStyle;
+    layer.style.transform = `translate(${i * 4}px, ${i * 4}px)`;
+    layer.style.opacity = `${1 - i * 0.25}`;
+    stack.appendChild(layer);
+  }
+
+  content.style.cssText += layerStyle;
+  stack.appendChild(content);
+
+  const badge = document.createElement('span');
+  badge.className = 'snap-ghost-count';
+  badge.textContent = String(count);
+  badge.style.cssText = `
+    position: absolute;
+    top: -8px;
+    right: -8px;
+    min-width: 20px;
+    padding: 2px 6px;
+    border-radius: 10px;
+    background: #0078ff;
+    color: #fff;
+    font: bold 12px/16px sans-serif;
+    text-align: center;
+    box-sizing: border-box;
+  `;
+  stack.appendChild(badge);
+
+  return stack;
+}
@@ -17,6 +17,16 @@ import type {
 import { DragState } from './DragState.js';
 import { DragEngine } from './DragEngine.js';
 import { DropZoneManager } from './DropZone.js';
+import type { ClickSelection } from './Selection.js';
+import {
+  featureOptions,
+  getExtension,
+  getFeature,
+  getInput,
+  type FeatureOption,
+  type FeatureConfig,
+} from './Features.js';
+import type { GroupMember } from './DragGroup.js';
 import { boundsCache } from '../utils/BoundsCache.js';
 
 // Default options
@@ -33,6 +43,8 @@ export class Snap implements SnapInstance {
   private _state: DragState;
   private _engine: DragEngine;
   private _dropZoneManager: DropZoneManager;
+  // Selection, where the full bundle registered multiSelect
+  private _selection: ClickSelection | null;
 
   // Imperative registrations
   private _imperativeDraggables = new Map<HTMLElement, ItemOptions>();
@@ -42,6 +54,14 @@ export class Snap implements SnapInstance {
   private _plugins: Plugin[] = [];
   private _behaviors: Behavior[] = [];
 
+  // Plugins and behaviors installed from option flags, with the flag value
+  private _features = new Map<FeatureOption, { value: unknown; instance: Plugin | Behavior }>();
+  private _syncingFeatures = false;
+
+  // This instance as seen by other instances in its drag group
+  private _groupMember: GroupMember;
+  private _group: string | undefined;
+
   // Event listeners for on/off API
   private _eventListeners: Map<SnapEventName, Set<(e: unknown) => void>> = new Map();
 
@@ -53,8 +73,12 @@ export class Snap implements SnapInstance {
   private _refreshScheduled = false;
   private _destroyed = false;
 
+  // Drop zones, cached until the DOM or the registrations change
+  private _dropZones: HTMLElement[] | null = null;
+  private _zoneObserver: MutationObserver;
+
   // Scroll/resize handlers
-  private _scrollHandler: (() => void) | null = null;
+  private _scrollHandler: ((e: Event) => void) | null = null;
   private _resizeHandler: (() => void) | null = null;
 
   constructor(
@@ -68,16 +92,48 @@ export class Snap implements SnapInstance {
     this._wrapCallbacks();
 
     // Initialize subsystems
-    this._state = new DragState();
+    this._state = new DragState({ multiple: this._options.multiTouch });
     this._dropZoneManager = new DropZoneManager();
 
+    this._groupMember = {
+      options: this._options,
+      getDropZones: () => this._getDropZones(),
+      ownsDropZone: (el) => this._ownsDropZone(el),
+      getDropZone: (el) => this._dropZoneManager.get(el) ?? this._dropZoneManager.register(el),
+      getDropZonePath: (el) => this._dropZoneManager.getPath(el),
+      dropZonesChanged: () => this._engine.invalidateDropZones(),
+    };
+
+    // Ctrl/Cmd-click and Shift-click selection
+    this._selection =
+      getExtension('multiSelect')?.create({
+        options: this._options,
+        target: this._getEventTarget(),
+        isDraggable: (el) => this.isDraggable(el),
+        getDraggables: () => this._getDraggables(),
+      }) ?? null;
+
     this._engine = new DragEngine({
       container: this._container,
       state: this._state,
       options: this._options,
-      getDropZones: () => this._getDropZones(),
+      // Zones from other instances in the drag group are resolved by their owner
+      getDropZones: () => [
+        ...this._getDropZones(),
+        ...this._getGroupPeers().flatMap((peer) => peer.getDropZones()),
+      ],
+      getDropZone: (el) => this._getZoneOwner(el).getDropZone(el),
+      getDropZonePath: (el) => this._getZoneOwner(el).getDropZonePath(el),
+      getRemoteZoneOptions: (el) => {
+        const owner = this._getZoneOwner(el);
+        return owner === this._groupMember ? null : owner.options;
+      },
+      getDraggables: () => this._getDraggables(),
+      getItemOptions: (el) => this._imperativeDraggables.get(el),
+      getDragElements: (el) => this._getDragElements(el),
       getItemData: (el) => this._getItemData(el),
       getItemAxis: (el) => this._getItemAxis(el),
+      getBehaviors: () => this._behaviors,
     });
 
     // Setup state listeners for behaviors
@@ -92,8 +148,18 @@ export class Snap implements SnapInstance {
     }
 
     // Setup scroll/resize handlers
+    boundsCache.acquire();
     this._setupScrollResize();
 
+    this._zoneObserver = new MutationObserver(this._onZoneMutations);
+    this._observeZones();
+
+    // Install plugins/behaviors for sortable, kanban, fileDrop, canvas,
+    // autoScroll and announcements flags
+    this._syncFeatures();
+
+    this._syncGroup();
+
     // Enable by default
     this.enable();
   }
@@ -123,9 +189,16 @@ export class Snap implements SnapInstance {
    * Cleanup and destroy instance
    */
   destroy(): void {
+    if (this._destroyed) return;
     this._destroyed = true;
     this.disable();
 
+    if (this._group !== undefined) {
+      this._invalidateDropZones();
+      getExtension('group')?.leaveGroup(this._group, this._groupMember);
+      this._group = undefined;
+    }
+
     // Unsubscribe from state listeners
     for (const unsub of this._stateUnsubscribers) {
       unsub();
@@ -143,6 +216,10 @@ export class Snap implements SnapInstance {
       behavior.destroy();
     }
     this._behaviors = [];
+    this._features.clear();
+
+    // Cleanup selection
+    this._selection?.destroy();
 
     // Cleanup subsystems
     this._engine.destroy();
@@ -152,6 +229,8 @@ export class Snap implements SnapInstance {
     // Cleanup observers
     this._observer?.disconnect();
     this._observer = null;
+    this._zoneObserver.disconnect();
+    this._dropZones = null;
 
     // Cleanup event handlers
     if (this._scrollHandler) {
@@ -162,6 +241,7 @@ export class Snap implements SnapInstance {
       window.removeEventListener('resize', this._resizeHandler);
       this._resizeHandler = null;
     }
+    boundsCache.release();
 
     // Clear registrations
     this._imperativeDraggables.clear();
@@ -173,6 +253,7 @@ export class Snap implements SnapInstance {
    */
   refresh(): void {
     this._scanDeclarativeElements();
+    this._invalidateDropZones();
     boundsCache.invalidateAll();
   }
 
@@ -181,6 +262,9 @@ export class Snap implements SnapInstance {
    */
   addDraggable(element: HTMLElement, options?: ItemOptions): void {
     this._imperativeDraggables.set(element, options ?? {});
+    if (this._hasKeyboard()) {
+      this._makeAccessible(element);
+    }
   }
 
   /**
@@ -196,6 +280,7 @@ export class Snap implements SnapInstance {
   addDropZone(element: HTMLElement, options?: DropZoneOptions): void {
     this._imperativeDropZones.set(element, options ?? {});
     this._dropZoneManager.register(element, options);
+    this._invalidateDropZones();
   }
 
   /**
@@ -204,6 +289,16 @@ export class Snap implements SnapInstance {
   removeDropZone(element: HTMLElement): void {
     this._imperativeDropZones.delete(element);
     this._dropZoneManager.unregister(element);
+    this._invalidateDropZones();
+  }
+
+  /**
+   * Check if an element can be dragged (declarative or imperative)
+   */
+  isDraggable(element: HTMLElement): boolean {
+    const imperative = this._imperativeDraggables.get(element);
+    if (imperative) return !imperative.disabled;
+    return element.matches(this._options.draggableSelector ?? '[data-draggable]');
   }
 
   /**
@@ -220,10 +315,41 @@ export class Snap implements SnapInstance {
     return this._state.getActiveElement();
   }
 
+  /**
+   * Add elements to the selection
+   */
+  select(elements: HTMLElement | HTMLElement[]): void {
+    this._selection?.select(Array.isArray(elements) ? elements : [elements]);
+  }
+
+  /**
+   * Remove elements from the selection
+   */
+  deselect(elements: HTMLElement | HTMLElement[]): void {
+    this._selection?.deselect(Array.isArray(elements) ? elements : [elements]);
+  }
+
+  /**
+   * Clear the selection
+   */
+  clearSelection(): void {
+    this._selection?.clear();
+  }
+
+  /**
+   * Get selected elements in document order
+   */
+  getSelection(): HTMLElement[] {
+    return this._selection?.elements ?? [];
+  }
+
   /**
    * Register a plugin
    */
   use(plugin: Plugin): this {
+    // The user's instance replaces one installed from an option flag
+    this._removeFeatureNamed(plugin.name);
+
     this._plugins.push(plugin);
     plugin.init(this);
     return this;
@@ -233,16 +359,38 @@ export class Snap implements SnapInstance {
    * Add a behavior
    */
   addBehavior(behavior: Behavior): this {
+    this._removeFeatureNamed(behavior.name);
+
     this._behaviors.push(behavior);
     return this;
   }
 
+  /**
+   * Remove and destroy a behavior
+   */
+  removeBehavior(behavior: Behavior): void {
+    if (!this._behaviors.includes(behavior)) return;
+    this._behaviors = this._behaviors.filter((b) => b !== behavior);
+    behavior.destroy();
+  }
+
   /**
    * Update options dynamically
    */
   setOptions(options: Partial<SnapOptions>): void {
     Object.assign(this._options, options);
     this._engine.updateOptions(this._options);
+
+    // Plugins restore their callbacks while the instance is torn down
+    if (this._destroyed) return;
+
+    this._syncFeatures();
+    this._syncGroup();
+
+    if ('dropZoneSelector' in options) {
+      this._observeZones();
+      this._invalidateDropZones();
+    }
   }
 
   /**
@@ -317,11 +465,210 @@ export class Snap implements SnapInstance {
       this._emit('dropzoneleave', e);
       userCallbacks.onDropZoneLeave?.(e);
     };
+
+    this._options.onSort = (e) => {
+      this._emit('sort', e);
+      userCallbacks.onSort?.(e);
+    };
+
+    this._options.onSelectionChange = (e) => {
+      this._emit('selectionchange', e);
+      userCallbacks.onSelectionChange?.(e);
+    };
+
+    this._options.onResizeStart = (e) => {
+      this._emit('resizestart', e);
+      return userCallbacks.onResizeStart?.(e);
+    };
+
+    this._options.onResize = (e) => {
+      this._emit('resize', e);
+      userCallbacks.onResize?.(e);
+    };
+
+    this._options.onResizeEnd = (e) => {
+      this._emit('resizeend', e);
+      userCallbacks.onResizeEnd?.(e);
+    };
+
+    this._options.onNativeDrop = (e) => {
+      this._emit('nativedrop', e);
+      userCallbacks.onNativeDrop?.(e);
+    };
   }
 
   // Internal methods
 
+  /**
+   * Install, reconfigure or remove option-driven plugins and behaviors
+   */
+  private _syncFeatures(): void {
+    // Plugins call setOptions() from init; ignore those nested calls
+    if (this._syncingFeatures) return;
+    this._syncingFeatures = true;
+
+    try {
+      for (const option of featureOptions) {
+        this._syncFeature(option);
+      }
+    } finally {
+      this._syncingFeatures = false;
+    }
+  }
+
+  private _syncFeature<K extends FeatureOption>(option: K): void {
+    // Announcements are on unless turned off
+    const value =
+      option === 'announcements' ? this._options.announcements ?? true : this._options[option];
+    const installed = this._features.get(option);
+    if (installed?.value === value) return;
+
+    // Changed config: tear down and reinstall with the new options
+    if (installed) {
+      this._uninstall(installed.instance);
+      this._features.delete(option);
+    }
+
+    const factory = getFeature(option);
+    if (!value || !factory) return;
+
+    // Already installed by hand with use()/addBehavior()
+    const manual = [...this._plugins, ...this._behaviors].some((p) => p.name === factory.name);
+    if (manual) return;
+
+    const config = (value === true ? {} : value) as FeatureConfig<K>;
+    if (factory.type === 'plugin') {
+      const plugin = factory.create(config);
+      this._features.set(option, { value, instance: plugin });
+      this._plugins.push(plugin);
+      plugin.init(this);
+    } else {
+      const behavior = factory.create(config);
+      this._features.set(option, { value, instance: behavior });
+      this._behaviors.push(behavior);
+    }
+  }
+
+  private _removeFeatureNamed(name: string): void {
+    for (const [option, { instance }] of this._features) {
+      if (instance.name !== name) continue;
+      this._uninstall(instance);
+      this._features.delete(option);
+    }
+  }
+
+  private _uninstall(instance: Plugin | Behavior): void {
+    this._plugins = this._plugins.filter((p) => p !== instance);
+    this._behaviors = this._behaviors.filter((b) => b !== instance);
+    instance.destroy();
+  }
+
+  /**
+   * Join or switch drag groups when the group option changes
+   */
+  private _syncGroup(): void {
+    // Groups need the group extension (the full bundle registers it)
+    const groups = getExtension('group');
+    const group = groups ? this._options.group : undefined;
+    if (group === this._group) return;
+
+    // Old and new peers, and this instance, now see a different set of zones
+    this._invalidateDropZones();
+    if (this._group !== undefined) {
+      groups?.leaveGroup(this._group, this._groupMember);
+    }
+    if (group !== undefined) {
+      groups?.joinGroup(group, this._groupMember);
+    }
+    this._group = group;
+    this._invalidateDropZones();
+  }
+
+  /**
+   * The group member that owns a drop zone (this instance unless a peer does)
+   */
+  private _getZoneOwner(element: HTMLElement): GroupMember {
+    if (this._ownsDropZone(element)) return this._groupMember;
+
+    return this._getGroupPeers().find((peer) => peer.ownsDropZone(element)) ?? this._groupMember;
+  }
+
+  /**
+   * Other instances in this instance's drag group
+   */
+  private _getGroupPeers(): GroupMember[] {
+    return getExtension('group')?.getGroupPeers(this._group, this._groupMember) ?? [];
+  }
+
+  private _ownsDropZone(element: HTMLElement): boolean {
+    if (this._imperativeDropZones.has(element)) return true;
+
+    const selector = this._options.dropZoneSelector ?? '[data-droppable]';
+    return element.matches(selector) && this._container.contains(element);
+  }
+
+  /**
+   * Watch for drop zones being added, removed, or gaining or losing the
+   * attributes the zone selector matches on
+   */
+  private _observeZones(): void {
+    const selector = this._options.dropZoneSelector ?? '[data-droppable]';
+    const attributeFilter = Array.from(selector.matchAll(/\[\s*([\w-]+)/g), (m) => m[1]);
+    if (selector.includes('.')) attributeFilter.push('class');
+    if (selector.includes('#')) attributeFilter.push('id');
+
+    this._zoneObserver.disconnect();
+    this._zoneObserver.observe(this._container, {
+      childList: true,
+      subtree: true,
+      attributes: attributeFilter.length > 0,
+      attributeFilter: attributeFilter.length > 0 ? attributeFilter : undefined,
+    });
+  }
+
+  private _onZoneMutations = (mutations: MutationRecord[]): void => {
+    if (mutations.some((m) => m.removedNodes.length > 0)) {
+      this._selection?.prune();
+    }
+
+    // Already rebuilding on the next lookup
+    const zones = this._dropZones;
+    if (!zones) return;
+
+    const selector = this._options.dropZoneSelector ?? '[data-droppable]';
+    const hasZone = (node: Node): boolean =>
+      node instanceof Element && (node.matches(selector) || node.querySelector(selector) !== null);
+
+    // Placeholders, ghosts and class toggles from drags leave the zones as they are
+    const changed = mutations.some((m) => {
+      if (m.type === 'childList') {
+        return [...m.addedNodes, ...m.removedNodes].some(hasZone);
+      }
+      const element = m.target as HTMLElement;
+      const isZone = this._imperativeDropZones.has(element) || element.matches(selector);
+      return isZone !== zones.includes(element);
+    });
+
+    if (changed) {
+      this._invalidateDropZones();
+    }
+  };
+
+  /**
+   * Drop the cached zone list, and the spatial indexes built from it here
+   * and in group peers
+   */
+  private _invalidateDropZones(): void {
+    this._dropZones = null;
+    this._engine.invalidateDropZones();
+    for (const peer of this._getGroupPeers()) {
+      peer.dropZonesChanged();
+    }
+  }
+
   private _getDropZones(): HTMLElement[] {
+    if (this._dropZones) return this._dropZones;
+
     // Combine declarative and imperative drop zones
     const selector = this._options.dropZoneSelector ?? '[data-droppable]';
     const containerEl = this._container instanceof ShadowRoot
@@ -335,9 +682,39 @@ export class Snap implements SnapInstance {
     const imperative = [...this._imperativeDropZones.keys()];
 
     // Unique elements
+    this._dropZones = [...new Set([...declarative, ...imperative])];
+    return this._dropZones;
+  }
+
+  private _getDraggables(): HTMLElement[] {
+    const selector = this._options.draggableSelector ?? '[data-draggable]';
+    const declarative = Array.from(
+      this._container.querySelectorAll<HTMLElement>(selector)
+    );
+
+    const imperative = [...this._imperativeDraggables]
+      .filter(([, options]) => !options.disabled)
+      .map(([element]) => element);
+
     return [...new Set([...declarative, ...imperative])];
   }
 
+  private _getDragElements(element: HTMLElement): HTMLElement[] {
+    // Dragging a selected item drags the whole selection
+    if (this._selection?.has(element)) {
+      return this._selection.elements;
+    }
+    return [element];
+  }
+
+  private _getEventTarget(): HTMLElement {
+    // For ShadowRoot, listen on the host element
+    if (this._container instanceof ShadowRoot) {
+      return this._container.host as HTMLElement;
+    }
+    return this._container;
+  }
+
   private _getItemData(element: HTMLElement): Record<string, unknown> | undefined {
     return this._imperativeDraggables.get(element)?.data;
   }
@@ -369,6 +746,33 @@ export class Snap implements SnapInstance {
         this._dropZoneManager.register(zone);
       }
     }
+
+    // Make declarative draggables reachable with the keyboard
+    if (this._hasKeyboard()) {
+      const draggableSelector = this._options.draggableSelector ?? '[data-draggable]';
+      const draggables = containerEl.querySelectorAll<HTMLElement>(draggableSelector);
+      for (const draggable of draggables) {
+        this._makeAccessible(draggable);
+      }
+    }
+  }
+
+  /**
+   * Keyboard drags need the option on and the keyboard input registered
+   * (the full bundle does, core doesn't)
+   */
+  private _hasKeyboard(): boolean {
+    return this._options.keyboard !== false && getInput('keyboard') !== undefined;
+  }
+
+  private _makeAccessible(element: HTMLElement): void {
+    // Don't override tab order or roles the app already set
+    if (!element.hasAttribute('tabindex') && element.tabIndex < 0) {
+      element.tabIndex = 0;
+    }
+    if (!element.hasAttribute('aria-roledescription')) {
+      element.setAttribute('aria-roledescription', 'draggable');
+    }
   }
 
   private _setupStateListeners(): void {
@@ -394,6 +798,11 @@ export class Snap implements SnapInstance {
         for (const behavior of this._behaviors) {
           behavior.onDragEnd?.(session);
         }
+
+        // Don't treat the click that ends a real drag as a selection click
+        if (session.delta.x !== 0 || session.delta.y !== 0) {
+          this._selection?.suppressClick();
+        }
       })
     );
   }
@@ -435,10 +844,13 @@ export class Snap implements SnapInstance {
   }
 
   private _setupScrollResize(): void {
-    // Invalidate bounds cache on scroll (capture phase for nested scrollers)
-    this._scrollHandler = () => {
+    // Cached bounds follow scrolling; move indexed drop zones along
+    // (capture phase for nested scrollers)
+    this._scrollHandler = (e) => {
       if (this._state.isDragging()) {
-        boundsCache.invalidateAll();
+        this._engine.updateDropZoneRects(e.target);
+      } else {
+        this._engine.invalidateDropZones();
       }
     };
     window.addEventListener('scroll', this._scrollHandler, true);
@@ -446,6 +858,7 @@ export class Snap implements SnapInstance {
     // Invalidate on resize
     this._resizeHandler = () => {
       boundsCache.invalidateAll();
+      this._engine.invalidateDropZones();
     };
     window.addEventListener('resize', this._resizeHandler);
   }
@@ -2,3 +2,45 @@ export { Snap, default } from './Snap.js';
 export { DragState } from './DragState.js';
 export { DragEngine, type DragEngineOptions } from './DragEngine.js';
 export { DropZone, DropZoneManager } from './DropZone.js';
+export { DragBridge, serializeData } from './DragBridge.js';
+export { Announcer, defaultAnnouncements, describeElement } from './Announcer.js';
+export {
+  registerFeature,
+  getFeature,
+  featureOptions,
+  registerInput,
+  getInput,
+  inputOptions,
+  registerCollision,
+  getCollision,
+  registerExtension,
+  getExtension,
+  type FeatureOption,
+  type FeatureFactory,
+  type InputOption,
+  type InputFactory,
+  type Input,
+  type InputHost,
+  type DragRelay,
+  type Extensions,
+  type ExtensionOption,
+} from './Features.js';
+export { KeyboardInput, BridgeInput, NativeInput } from './Inputs.js';
+export {
+  SelectionManager,
+  ClickSelection,
+  sortByDocumentPosition,
+  createStackedGhost,
+  type SelectionOptions,
+  type SelectionHost,
+} from './Selection.js';
+export { joinGroup, leaveGroup, getGroupPeers, type GroupMember } from './DragGroup.js';
+export { DropAnimation } from './DropAnimation.js';
+export {
+  pointerWithin,
+  rectIntersection,
+  closestCenter,
+  closestCorners,
+  largestOverlap,
+  getCollisionDetector,
+} from './Collision.js';
@@ -43,6 +43,80 @@
  * ```
  */
 
+import {
+  registerFeature,
+  registerInput,
+  registerCollision,
+  registerExtension,
+} from './core/Features.js';
+import { KeyboardInput, BridgeInput, NativeInput } from './core/Inputs.js';
+import { Announcer } from './core/Announcer.js';
+import { ClickSelection, createStackedGhost } from './core/Selection.js';
+import { joinGroup, leaveGroup, getGroupPeers } from './core/DragGroup.js';
+import { DropAnimation } from './core/DropAnimation.js';
+import {
+  rectIntersection,
+  closestCenter,
+  closestCorners,
+  largestOverlap,
+} from './core/Collision.js';
+import { Sortable } from './plugins/Sortable.js';
+import { Kanban } from './plugins/Kanban.js';
+import { FileDrop } from './plugins/FileDrop.js';
+import { Canvas } from './plugins/Canvas.js';
+import { AutoScroll } from './behaviors/AutoScroll.js';
+
+// Let the sortable/kanban/fileDrop/canvas/autoScroll/announcements options install these
+registerFeature('sortable', {
+  type: 'plugin',
+  name: 'sortable',
+  create: (options) => new Sortable(options),
+});
+registerFeature('kanban', {
+  type: 'plugin',
+  name: 'kanban',
+  create: (options) => new Kanban(options),
+});
+registerFeature('fileDrop', {
+  type: 'plugin',
+  name: 'file-drop',
+  create: (options) => new FileDrop(options),
+});
+registerFeature('canvas', {
+  type: 'plugin',
+  name: 'canvas',
+  create: (options) => new Canvas(options),
+});
+registerFeature('autoScroll', {
+  type: 'behavior',
+  name: 'auto-scroll',
+  create: (options) => new AutoScroll(options),
+});
+registerFeature('announcements', {
+  type: 'plugin',
+  name: 'announcer',
+  create: (announcements) => new Announcer(announcements),
+});
+
+// Let the keyboard, bridge and native options add their sensors to the engine
+registerInput('keyboard', (host, options) => new KeyboardInput(host, options));
+registerInput('bridge', (host, options) => new BridgeInput(host, options));
+registerInput('native', (host, options) => new NativeInput(host, options));
+
+// Let the collision option pick the strategies besides pointer-within
+registerCollision('rect-intersection', rectIntersection);
+registerCollision('closest-center', closestCenter);
+registerCollision('closest-corners', closestCorners);
+registerCollision('largest-overlap', largestOverlap);
+
+// Selection, drag groups and drop animation for the options that need them
+registerExtension('multiSelect', {
+  create: (host) => new ClickSelection(host),
+  stackGhost: createStackedGhost,
+});
+registerExtension('group', { joinGroup, leaveGroup, getGroupPeers });
+registerExtension('dropAnimation', (options) => new DropAnimation(options));
+
 // Main entry point
 export { Snap, default } from './core/Snap.js';
 
@@ -50,27 +124,62 @@ export { Snap, default } from './core/Snap.js';
 export { DragState } from './core/DragState.js';
 export { DragEngine } from './core/DragEngine.js';
 export { DropZone, DropZoneManager } from './core/DropZone.js';
+export {
+  registerFeature,
+  registerInput,
+  registerCollision,
+  registerExtension,
+  type FeatureOption,
+  type FeatureFactory,
+  type InputOption,
+  type InputFactory,
+  type Input,
+  type InputHost,
+  type DragRelay,
+  type Extensions,
+  type ExtensionOption,
+} from './core/Features.js';
+
+// Collision detection strategies
+export {
+  pointerWithin,
+  rectIntersection,
+  closestCenter,
+  closestCorners,
+  largestOverlap,
+} from './core/Collision.js';
 
 // Plugins
+export { Announcer } from './core/Announcer.js';
 export { Sortable } from './plugins/Sortable.js';
+export { SortableTree } from './plugins/SortableTree.js';
 export { Kanban } from './plugins/Kanban.js';
 export { FileDrop, createFileDropZone } from './plugins/FileDrop.js';
+export { Canvas } from './plugins/Canvas.js';
+export { Resizable } from './plugins/Resizable.js';
 
 // Behaviors
 export { AutoScroll } from './behaviors/AutoScroll.js';
 export { SnapGrid } from './behaviors/SnapGrid.js';
 export { ConstraintAxis } from './behaviors/ConstraintAxis.js';
+export { AlignmentGuides } from './behaviors/AlignmentGuides.js';
 
 // Utilities (for custom implementations)
 export { EventEmitter } from './utils/EventEmitter.js';
 export { ObjectPool, pointPool, rectPool } from './utils/ObjectPool.js';
 export { BoundsCache, boundsCache } from './utils/BoundsCache.js';
 export { RAFThrottle, rafThrottle } from './utils/RAFThrottle.js';
+export { SpatialIndex } from './utils/SpatialIndex.js';
+export { getInsertionIndex, swapElements } from './utils/Layout.js';
 export { SnapDataTransfer } from './utils/DataTransfer.js';
+export { wrapCallbacks } from './utils/Callbacks.js';
 
 // Sensors (for custom implementations)
 export { PointerSensor } from './sensors/PointerSensor.js';
 export { FileSensor } from './sensors/FileSensor.js';
+export { KeyboardSensor } from './sensors/KeyboardSensor.js';
+export { BridgeSensor } from './sensors/BridgeSensor.js';
+export { NativeSensor } from './sensors/NativeSensor.js';
 
 // Types
 export type {
@@ -93,6 +202,12 @@ export type {
   DropZoneEnterEvent,
   DropZoneLeaveEvent,
   FileDropEvent,
+  NativeDropEvent,
+  SortEvent,
+  SelectionChangeEvent,
+  ResizeEvent,
+  ResizeEndEvent,
+  ResizeHandle,
   SnapEventMap,
   SnapEventName,
 
@@ -102,10 +217,27 @@ export type {
   ItemOptions,
   DropZoneOptions,
   AutoScrollOptions,
+  KeyboardOptions,
+  Announcements,
+  MultiSelectOptions,
+  DropAnimationOptions,
+  CollisionStrategy,
+  CollisionDetector,
+  CollisionArgs,
+  CollisionZone,
+  BridgeOptions,
+  NativeDragOptions,
+  ActivationOptions,
+  PointerActivation,
   GridOptions,
   SortableOptions,
+  VirtualListOptions,
+  SortMode,
+  SortableTreeOptions,
   KanbanOptions,
   FileDropOptions,
+  CanvasOptions,
+  ResizableOptions,
 
   // Plugin/Behavior types
   Plugin,
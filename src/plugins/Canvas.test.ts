@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+// Full bundle: multi-select comes from its registrations
+import { Snap } from '../index.js';
+import { Canvas } from './Canvas.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+
+function place(element: HTMLElement, x: number, y: number, width: number, height: number): void {
+  element.getBoundingClientRect = () => new DOMRect(x, y, width, height);
+}
+
+function pointer(type: string, target: EventTarget, x: number, y: number, pointerId = 1): void {
+  target.dispatchEvent(
+    new PointerEvent(type, {
+      bubbles: true,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      pointerId,
+      isPrimary: pointerId === 1,
+      pointerType: 'touch',
+    })
+  );
+}
+
+describe('Canvas', () => {
+  let container: HTMLElement;
+  let board: HTMLElement;
+  let a: HTMLElement;
+  let b: HTMLElement;
+  let snap: Snap;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="a" data-draggable></div>
+        <div id="b" data-draggable></div>
+        <div id="board" data-droppable data-canvas></div>
+      </div>`;
+    container = document.getElementById('container')!;
+    board = document.getElementById('board')!;
+    a = document.getElementById('a')!;
+    b = document.getElementById('b')!;
+    place(a, 0, 0, 50, 50);
+    place(b, 0, 100, 50, 50);
+    place(board, 100, 0, 400, 400);
+    boundsCache.invalidateAll();
+    HTMLElement.prototype.setPointerCapture ??= () => {};
+  });
+
+  afterEach(() => {
+    snap.destroy();
+  });
+
+  it('moves a dropped item to where its top-left was dropped', () => {
+    const onDrop = vi.fn();
+    snap = new Snap(container, { throttle: false, onDrop }).use(new Canvas());
+
+    pointer('pointerdown', a, 10, 10);
+    pointer('pointermove', container, 210, 110);
+    pointer('pointerup', container, 210, 110);
+
+    expect(a.parentElement).toBe(board);
+    expect(a.style.position).toBe('absolute');
+    expect([a.style.left, a.style.top]).toEqual(['100px', '100px']);
+    expect(onDrop.mock.calls[0][0].localPosition).toEqual({ x: 100, y: 100 });
+  });
+
+  it('keeps each overlapping drag\'s grab offset', () => {
+    snap = new Snap(container, { throttle: false, multiTouch: true }).use(
+      new Canvas()
+    );
+
+    // Held at (10, 10) and (20, 30) from their top-left corners
+    pointer('pointerdown', a, 10, 10, 1);
+    pointer('pointerdown', b, 20, 130, 2);
+    pointer('pointermove', container, 210, 110, 1);
+    pointer('pointermove', container, 320, 330, 2);
+
+    pointer('pointerup', container, 320, 330, 2);
+    pointer('pointerup', container, 210, 110, 1);
+
+    expect([b.style.left, b.style.top]).toEqual(['200px', '300px']);
+    expect([a.style.left, a.style.top]).toEqual(['100px', '100px']);
+  });
+
+  it('uses transforms when asked', () => {
+    snap = new Snap(container, { throttle: false }).use(
+      new Canvas({ positioning: 'transform' })
+    );
+
+    pointer('pointerdown', a, 10, 10);
+    pointer('pointermove', container, 210, 110);
+    pointer('pointerup', container, 210, 110);
+
+    expect(a.style.transform).toBe('translate(100px, 100px)');
+  });
+
+  it('keeps a multi-select group\'s layout', () => {
+    snap = new Snap(container, { throttle: false, multiSelect: true }).use(new Canvas());
+    snap.select([a, b]);
+
+    pointer('pointerdown', a, 10, 10);
+    pointer('pointermove', container, 210, 110);
+    pointer('pointerup', container, 210, 110);
+
+    expect(b.parentElement).toBe(board);
+    expect([a.style.left, a.style.top]).toEqual(['100px', '100px']);
+    expect([b.style.left, b.style.top]).toEqual(['100px', '200px']);
+  });
+
+  it('snaps to the grid in canvas coordinates', () => {
+    // The canvas doesn't start on a grid line
+    place(board, 105, 0, 400, 400);
+    boundsCache.invalidateAll();
+    snap = new Snap(container, { throttle: false, grid: { x: 20, y: 20 } }).use(new Canvas());
+
+    pointer('pointerdown', a, 10, 10);
+    pointer('pointermove', container, 200, 100);
+    pointer('pointermove', container, 213, 104);
+    pointer('pointerup', container, 213, 104);
+
+    expect([a.style.left, a.style.top]).toEqual(['100px', '100px']);
+  });
+
+  it('accounts for the canvas\'s zoom, scroll and border', () => {
+    Object.defineProperty(board, 'scrollTop', { value: 30, configurable: true });
+    Object.defineProperty(board, 'clientLeft', { value: 2, configurable: true });
+    snap = new Snap(container, { throttle: false }).use(new Canvas({ getScale: () => 2 }));
+
+    pointer('pointerdown', a, 10, 10);
+    pointer('pointermove', container, 300, 210);
+    pointer('pointerup', container, 300, 210);
+
+    // ((300 - 10 - 100) / 2 - 2, (210 - 10) / 2 + 30)
+    expect([a.style.left, a.style.top]).toEqual(['93px', '130px']);
+  });
+
+  it('leaves drops outside a canvas alone', () => {
+    const other = document.createElement('div');
+    other.setAttribute('data-droppable', '');
+    container.appendChild(other);
+    place(other, 600, 0, 100, 100);
+    boundsCache.invalidateAll();
+    const onDrop = vi.fn();
+    snap = new Snap(container, { throttle: false, onDrop }).use(new Canvas());
+
+    pointer('pointerdown', a, 10, 10);
+    pointer('pointermove', container, 650, 50);
+    pointer('pointerup', container, 650, 50);
+
+    expect(a.parentElement).toBe(container);
+    expect(a.style.position).toBe('');
+    expect(onDrop.mock.calls[0][0].localPosition).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Canvas plugin - free-form positioning, moves dropped items to the spot
+ * they were dropped on inside a canvas container
+ */
+import type {
+  Plugin,
+  SnapInstance,
+  CanvasOptions,
+  Behavior,
+  DragSession,
+  DropEvent,
+  Point,
+  ModifierContext,
+} from '../types/index.js';
+import { wrapCallbacks } from '../utils/Callbacks.js';
+
+// Where the pointer held the items when a drag started
+interface CanvasDrag {
+  // Pointer offset from the dragged item's top-left corner
+  grabOffset: Point;
+  // Each dragged item's top-left relative to the primary item, in layout px
+  offsets: Point[];
+}
+
+const defaultOptions: CanvasOptions = {
+  containers: '[data-canvas]',
+  positioning: 'absolute',
+};
+
+export class Canvas implements Plugin {
+  name = 'canvas';
+
+  private _snap: SnapInstance | null = null;
+  private _options: CanvasOptions;
+  private _behavior: Behavior;
+  // Keyed by session id, multiTouch drags run side by side
+  private _drags = new Map<string, CanvasDrag>();
+
+  // Puts back the callbacks init() wrapped
+  private _restoreCallbacks: (() => void) | null = null;
+
+  constructor(options: CanvasOptions = {}) {
+    this._options = { ...defaultOptions, ...options };
+
+    // Aligns the ghost to the grid in canvas coordinates, after the grid
+    // option and before ConstraintAxis bounds
+    this._behavior = {
+      name: 'canvas-position',
+      priority: 150,
+      onDragStart: (session) => this._onDragStart(session),
+      // A drag cancelled in onDragStart never reaches the onDragEnd callback
+      onDragEnd: (session) => {
+        if (session.phase === 'cancelled') this._drags.delete(session.id);
+      },
+      modifyPosition: (position, context) => this._snapToGrid(position, context),
+      destroy: () => {},
+    };
+  }
+
+  init(snap: SnapInstance): void {
+    this._snap = snap;
+    snap.addBehavior(this._behavior);
+
+    const originalOnDrop = snap.options.onDrop;
+    const originalOnDragEnd = snap.options.onDragEnd;
+
+    this._restoreCallbacks = wrapCallbacks(snap, {
+      onDrop: (e) => {
+        // Destroyed under a later plugin's wrapper, this one stays in the chain
+        if (!this._snap) return originalOnDrop?.(e);
+
+        const canvas = this._getDropCanvas(e);
+        if (!canvas) return originalOnDrop?.(e);
+
+        const localPosition = this._commit(e, canvas);
+        originalOnDrop?.({ ...e, localPosition });
+      },
+      onDragEnd: (e) => {
+        this._drags.delete(e.sessionId);
+        return originalOnDragEnd?.(e);
+      },
+    });
+  }
+
+  destroy(): void {
+    this._snap?.removeBehavior(this._behavior);
+    this._restoreCallbacks?.();
+    this._restoreCallbacks = null;
+    this._snap = null;
+    this._drags.clear();
+  }
+
+  /**
+   * Convert a viewport point to a canvas's local coordinates
+   */
+  toLocal(canvas: HTMLElement, point: Point): Point {
+    const rect = canvas.getBoundingClientRect();
+    const scale = this._getScale(canvas);
+
+    return {
+      x: (point.x - rect.left) / scale - canvas.clientLeft + canvas.scrollLeft,
+      y: (point.y - rect.top) / scale - canvas.clientTop + canvas.scrollTop,
+    };
+  }
+
+  /**
+   * Convert a canvas's local coordinates to a viewport point
+   */
+  toViewport(canvas: HTMLElement, point: Point): Point {
+    const rect = canvas.getBoundingClientRect();
+    const scale = this._getScale(canvas);
+
+    return {
+      x: rect.left + (point.x + canvas.clientLeft - canvas.scrollLeft) * scale,
+      y: rect.top + (point.y + canvas.clientTop - canvas.scrollTop) * scale,
+    };
+  }
+
+  private _onDragStart(session: DragSession): void {
+    // Runs before the ghost is created, while the items are still in place
+    const rect = session.element.getBoundingClientRect();
+    const scale = session.element.parentElement
+      ? this._getScale(session.element.parentElement)
+      : 1;
+
+    this._drags.set(session.id, {
+      grabOffset: {
+        x: session.origin.x - rect.left,
+        y: session.origin.y - rect.top,
+      },
+      offsets: session.elements.map((el) => {
+        const elRect = el.getBoundingClientRect();
+        return {
+          x: (elRect.left - rect.left) / scale,
+          y: (elRect.top - rect.top) / scale,
+        };
+      }),
+    });
+  }
+
+  private _snapToGrid(position: Point, context: ModifierContext): Point | void {
+    const grid = this._snap?.options.grid;
+    if (!grid) return;
+
+    const canvas = this._getCanvas(context.session.dropZone);
+    if (!canvas) return;
+
+    const { offset } = context;
+    const local = this.toLocal(canvas, { x: position.x - offset.x, y: position.y - offset.y });
+    const snapped = this.toViewport(canvas, {
+      x: Math.round(local.x / grid.x) * grid.x,
+      y: Math.round(local.y / grid.y) * grid.y,
+    });
+
+    return { x: snapped.x + offset.x, y: snapped.y + offset.y };
+  }
+
+  /**
+   * Move the dropped items into the canvas at the drop position
+   */
+  private _commit(e: DropEvent, canvas: HTMLElement): Point {
+    const drag = this._drags.get(e.sessionId);
+    const grabOffset = drag?.grabOffset ?? { x: 0, y: 0 };
+    const local = this.toLocal(canvas, {
+      x: e.position.x - grabOffset.x,
+      y: e.position.y - grabOffset.y,
+    });
+
+    // Positioned children need a positioned canvas
+    if (getComputedStyle(canvas).position === 'static') {
+      canvas.style.position = 'relative';
+    }
+
+    e.elements.forEach((el, i) => {
+      const offset = drag?.offsets[i] ?? { x: 0, y: 0 };
+      const x = local.x + offset.x;
+      const y = local.y + offset.y;
+
+      if (el.parentElement !== canvas) {
+        canvas.appendChild(el);
+      }
+
+      el.style.position = 'absolute';
+      if (this._options.positioning === 'transform') {
+        el.style.left = '0';
+        el.style.top = '0';
+        el.style.transform = `translate(${x}px, ${y}px)`;
+      } else {
+        el.style.left = `${x}px`;
+        el.style.top = `${y}px`;
+      }
+    });
+
+    return local;
+  }
+
+  /**
+   * Innermost canvas on the drop zone path
+   */
+  private _getDropCanvas(e: DropEvent): HTMLElement | null {
+    const selector = this._options.containers ?? '[data-canvas]';
+    return e.path.find((zone) => zone.matches(selector)) ?? null;
+  }
+
+  private _getCanvas(dropZone: HTMLElement | null): HTMLElement | null {
+    const selector = this._options.containers ?? '[data-canvas]';
+    return dropZone?.closest<HTMLElement>(selector) ?? null;
+  }
+
+  private _getScale(canvas: HTMLElement): number {
+    if (this._options.getScale) {
+      return this._options.getScale(canvas);
+    }
+
+    // CSS transforms scale the rendered box but not the layout size
+    const width = canvas.offsetWidth;
+    return width > 0 ? canvas.getBoundingClientRect().width / width : 1;
+  }
+}
@@ -7,12 +7,16 @@ import type {
   KanbanOptions,
   Point,
 } from '../types/index.js';
-import { boundsCache, pointInRect, rectCenter } from '../utils/BoundsCache.js';
+import { boundsCache, pointInRect } from '../utils/BoundsCache.js';
+import { getInsertionIndex } from '../utils/Layout.js';
+import { wrapCallbacks } from '../utils/Callbacks.js';
 
 const defaultOptions: Required<KanbanOptions> = {
   containers: '[data-droppable]',
   items: '[data-draggable]',
   animation: 150,
+  mode: 'insert',
+  swapClass: 'snap-swap-target',
 };
 
 export class Kanban implements Plugin {
@@ -23,9 +27,21 @@ export class Kanban implements Plugin {
   private _sourceContainer: HTMLElement | null = null;
   private _targetContainer: HTMLElement | null = null;
   private _placeholder: HTMLElement | null = null;
+  private _draggedElements: HTMLElement[] = [];
   private _originalIndex: number = -1;
+  private _originalIndices: number[] = [];
+  private _originalContainers: (HTMLElement | null)[] = [];
   private _currentIndex: number = -1;
 
+  // Swap mode: the item the dragged one will trade places with
+  private _swapTarget: HTMLElement | null = null;
+
+  // The drag this plugin follows; other multiTouch drags pass through
+  private _sessionId: string | null = null;
+
+  // Puts back the callbacks init() wrapped
+  private _restoreCallbacks: (() => void) | null = null;
+
   constructor(options: KanbanOptions = {}) {
     this._options = { ...defaultOptions, ...options };
   }
@@ -41,33 +57,58 @@ export class Kanban implements Plugin {
     const originalOnDrop = snap.options.onDrop;
     const originalOnDragEnd = snap.options.onDragEnd;
 
-    snap.setOptions({
+    this._restoreCallbacks = wrapCallbacks(snap, {
       onDragStart: (e) => {
-        this._onDragStart(e.element);
-        return originalOnDragStart?.(e);
+        const own = this._sessionId === null;
+        if (own) {
+          this._sessionId = e.sessionId;
+          this._onDragStart(e.element, e.elements);
+        }
+
+        // A start cancelled here gets no onDragEnd
+        const result = originalOnDragStart?.(e);
+        if (own && result === false) {
+          this._onDragEnd(true);
+          this._sessionId = null;
+        }
+        return result;
       },
       onDragMove: (e) => {
-        this._onDragMove(e.position);
+        if (e.sessionId === this._sessionId) {
+          this._onDragMove(e.position);
+        }
         originalOnDragMove?.(e);
       },
       onDropZoneEnter: (e) => {
-        this._onDropZoneEnter(e.dropZone);
+        if (e.sessionId === this._sessionId) {
+          this._onDropZoneEnter(e.dropZone);
+        }
         originalOnDropZoneEnter?.(e);
       },
       onDropZoneLeave: (e) => {
-        this._onDropZoneLeave(e.dropZone);
+        if (e.sessionId === this._sessionId) {
+          this._onDropZoneLeave(e.dropZone);
+        }
         originalOnDropZoneLeave?.(e);
       },
       onDrop: (e) => {
+        // Destroyed under a later plugin's wrapper, this one stays in the chain
+        if (!this._snap || e.sessionId !== this._sessionId) return originalOnDrop?.(e);
+
         const enhancedEvent = {
           ...e,
           insertionIndex: this._currentIndex,
           sourceContainer: this._sourceContainer ?? undefined,
+          originalIndices: this._originalIndices,
+          swapTarget: this._swapTarget ?? undefined,
         };
         originalOnDrop?.(enhancedEvent);
       },
       onDragEnd: (e) => {
-        this._onDragEnd();
+        if (e.sessionId === this._sessionId) {
+          this._onDragEnd(e.cancelled);
+          this._sessionId = null;
+        }
         originalOnDragEnd?.(e);
       },
     });
@@ -75,10 +116,16 @@ export class Kanban implements Plugin {
 
   destroy(): void {
     this._cleanup();
+    this._restoreCallbacks?.();
+    this._restoreCallbacks = null;
     this._snap = null;
   }
 
-  private _onDragStart(element: HTMLElement): void {
+  private _onDragStart(element: HTMLElement, elements: HTMLElement[]): void {
+    if (!this._snap) return;
+
+    this._draggedElements = elements;
+
     // Find source container
     this._sourceContainer = element.closest(this._options.containers);
     if (!this._sourceContainer) return;
@@ -89,6 +136,18 @@ export class Kanban implements Plugin {
     );
     this._originalIndex = items.indexOf(element);
 
+    // Multi-select group members may come from other containers
+    this._originalContainers = elements.map((el) =>
+      el.closest<HTMLElement>(this._options.containers)
+    );
+    this._originalIndices = elements.map((el, i) => {
+      const container = this._originalContainers[i];
+      if (!container) return -1;
+      return Array.from(
+        container.querySelectorAll<HTMLElement>(this._options.items)
+      ).indexOf(el);
+    });
+
     // Create placeholder
     this._createPlaceholder(element);
   }
@@ -96,6 +155,19 @@ export class Kanban implements Plugin {
   private _onDragMove(position: Point): void {
     if (!this._targetContainer || !this._placeholder) return;
 
+    if (this._options.mode === 'swap') {
+      const target = Array.from(
+        this._targetContainer.querySelectorAll<HTMLElement>(this._options.items)
+      ).find(
+        (el) =>
+          !this._draggedElements.includes(el) &&
+          el !== this._placeholder &&
+          pointInRect(position.x, position.y, boundsCache.get(el))
+      );
+      this._setSwapTarget(target ?? null);
+      return;
+    }
+
     // Calculate insertion index in target container
     const newIndex = this._calculateInsertionIndex(
       this._targetContainer,
@@ -104,22 +176,27 @@ export class Kanban implements Plugin {
     );
 
     if (newIndex !== this._currentIndex) {
+      const previousIndex = this._currentIndex;
       this._currentIndex = newIndex;
       this._movePlaceholder(newIndex);
+      this._emitSort(previousIndex);
     }
   }
 
   private _onDropZoneEnter(dropZone: HTMLElement): void {
-    // Check if it's a valid container
-    if (!dropZone.matches(this._options.containers)) return;
+    // Check if it's a valid container (and the plugin is still installed)
+    if (!this._snap || !dropZone.matches(this._options.containers)) return;
 
     this._targetContainer = dropZone;
     this._targetContainer.classList.add('snap-kanban-target');
 
-    // Insert placeholder into new container
-    if (this._placeholder) {
+    // Insert placeholder into new container (swap mode leaves it in the source slot)
+    if (this._placeholder && this._options.mode !== 'swap') {
+      const previousIndex = this._currentIndex;
       this._targetContainer.appendChild(this._placeholder);
+      boundsCache.invalidateAll();
       this._currentIndex = this._getItemCount(this._targetContainer);
+      this._emitSort(previousIndex);
     }
   }
 
@@ -128,17 +205,94 @@ export class Kanban implements Plugin {
 
     dropZone.classList.remove('snap-kanban-target');
 
-    // Remove placeholder from old container
-    this._placeholder?.remove();
+    if (this._options.mode === 'swap') {
+      this._setSwapTarget(null);
+    } else {
+      // Remove placeholder from old container
+      this._placeholder?.remove();
+      boundsCache.invalidateAll();
+    }
 
     this._targetContainer = null;
     this._currentIndex = -1;
   }
 
-  private _onDragEnd(): void {
+  private _onDragEnd(cancelled: boolean): void {
+    if (cancelled) {
+      this._restoreOriginalPositions();
+    }
     this._cleanup();
   }
 
+  /**
+   * Put each dragged element back at its original index in its source container
+   */
+  private _restoreOriginalPositions(): void {
+    const restores = this._draggedElements
+      .map((element, i) => ({
+        element,
+        container: this._originalContainers[i],
+        index: this._originalIndices[i],
+      }))
+      .filter((r) => r.index >= 0)
+      .sort((a, b) => a.index - b.index);
+
+    // Place in ascending index order so earlier indices are already settled
+    const pending = new Set(restores.map((r) => r.element));
+    for (const { element, container, index } of restores) {
+      pending.delete(element);
+      if (!container) continue;
+
+      const items = Array.from(
+        container.querySelectorAll<HTMLElement>(this._options.items)
+      ).filter((el) => el !== element && !pending.has(el));
+
+      const before = items[index];
+      if (before) {
+        before.parentNode?.insertBefore(element, before);
+      } else if (items.length > 0) {
+        const last = items[items.length - 1];
+        last.parentNode?.insertBefore(element, last.nextSibling);
+      } else {
+        container.appendChild(element);
+      }
+    }
+  }
+
+  /**
+   * Swap mode: highlight the item the dragged one will trade places with
+   */
+  private _setSwapTarget(target: HTMLElement | null): void {
+    if (target === this._swapTarget) return;
+
+    this._swapTarget?.classList.remove(this._options.swapClass);
+    target?.classList.add(this._options.swapClass);
+    this._swapTarget = target;
+
+    // The dragged item ends up at the target's index in its container
+    const previousIndex = this._currentIndex;
+    const container = target?.closest<HTMLElement>(this._options.containers);
+    this._currentIndex = target && container
+      ? Array.from(container.querySelectorAll<HTMLElement>(this._options.items)).indexOf(target)
+      : -1;
+
+    if (target) {
+      this._emitSort(previousIndex);
+    }
+  }
+
+  private _emitSort(previousIndex: number): void {
+    const element = this._snap?.getActiveElement();
+    if (!element || !this._targetContainer) return;
+
+    this._snap?.options.onSort?.({
+      element,
+      container: this._targetContainer,
+      index: this._currentIndex,
+      previousIndex,
+    });
+  }
+
   private _createPlaceholder(element: HTMLElement): void {
     const rect = element.getBoundingClientRect();
 
@@ -162,10 +316,12 @@ export class Kanban implements Plugin {
   private _movePlaceholder(index: number): void {
     if (!this._placeholder || !this._targetContainer) return;
 
-    const activeElement = this._snap?.getActiveElement();
     const items = Array.from(
       this._targetContainer.querySelectorAll<HTMLElement>(this._options.items)
-    ).filter((el) => el !== activeElement && el !== this._placeholder);
+    ).filter((el) => !this._draggedElements.includes(el) && el !== this._placeholder);
+
+    // Measure before the move so shifted items can animate
+    const positions = this._measureItems(this._targetContainer);
 
     // Remove from current position
     this._placeholder.remove();
@@ -181,10 +337,11 @@ export class Kanban implements Plugin {
         this._targetContainer.appendChild(this._placeholder);
       }
     }
+    boundsCache.invalidateAll();
 
     // Animate if enabled
     if (this._options.animation > 0) {
-      this._animateItems(this._targetContainer);
+      this._animateItems(positions);
     }
   }
 
@@ -193,64 +350,51 @@ export class Kanban implements Plugin {
     x: number,
     y: number
   ): number {
-    const activeElement = this._snap?.getActiveElement();
     const items = Array.from(
       container.querySelectorAll<HTMLElement>(this._options.items)
-    ).filter((el) => el !== activeElement && el !== this._placeholder);
-
-    if (items.length === 0) return 0;
-
-    // Determine orientation
-    const firstRect = boundsCache.get(items[0]);
-    const lastRect = boundsCache.get(items[items.length - 1]);
-    const isVertical =
-      Math.abs(lastRect.top - firstRect.top) >
-      Math.abs(lastRect.left - firstRect.left);
+    ).filter((el) => !this._draggedElements.includes(el) && el !== this._placeholder);
 
-    // Find insertion point
-    for (let i = 0; i < items.length; i++) {
-      const rect = boundsCache.get(items[i]);
-      const center = rectCenter(rect);
-
-      if (isVertical) {
-        if (y < center.y) return i;
-      } else {
-        if (x < center.x) return i;
-      }
-    }
-
-    return items.length;
+    // Nearest row, then column, so wrapped layouts work too
+    return getInsertionIndex(
+      items.map((item) => boundsCache.get(item)),
+      x,
+      y
+    );
   }
 
   private _getItemCount(container: HTMLElement): number {
-    const activeElement = this._snap?.getActiveElement();
     return Array.from(
       container.querySelectorAll<HTMLElement>(this._options.items)
-    ).filter((el) => el !== activeElement && el !== this._placeholder).length;
+    ).filter((el) => !this._draggedElements.includes(el) && el !== this._placeholder).length;
   }
 
-  private _animateItems(container: HTMLElement): void {
-    const activeElement = this._snap?.getActiveElement();
-    const items = Array.from(
-      container.querySelectorAll<HTMLElement>(this._options.items)
-    ).filter((el) => el !== activeElement && el !== this._placeholder);
-
-    // Store old positions
+  /**
+   * Current positions of a container's items, before the layout changes
+   */
+  private _measureItems(container: HTMLElement): Map<HTMLElement, DOMRect> {
     const positions = new Map<HTMLElement, DOMRect>();
-    for (const item of items) {
+    if (this._options.animation <= 0) return positions;
+
+    for (const item of container.querySelectorAll<HTMLElement>(this._options.items)) {
+      if (this._draggedElements.includes(item) || item === this._placeholder) continue;
       positions.set(item, item.getBoundingClientRect());
     }
+    return positions;
+  }
 
-    // Force reflow
-    void container.offsetHeight;
+  private _animateItems(positions: Map<HTMLElement, DOMRect>): void {
+    // Drop transforms left from an unfinished animation, so the new
+    // layout is measured where items actually sit
+    for (const item of positions.keys()) {
+      if (item.style.transform) {
+        item.style.transition = 'none';
+        item.style.transform = '';
+      }
+    }
 
-    // Animate
-    for (const item of items) {
-      const oldRect = positions.get(item);
+    // Animate from where each item was drawn to its new position
+    for (const [item, oldRect] of positions) {
       const newRect = item.getBoundingClientRect();
-
-      if (!oldRect) continue;
-
       const dx = oldRect.left - newRect.left;
       const dy = oldRect.top - newRect.top;
 
@@ -262,6 +406,11 @@ export class Kanban implements Plugin {
           item.style.transition = `transform ${this._options.animation}ms ease`;
           item.style.transform = '';
         });
+
+        // Rects measured mid-flight are stale once the item settles
+        item.addEventListener('transitionend', () => boundsCache.invalidate(item), {
+          once: true,
+        });
       }
     }
   }
@@ -271,6 +420,9 @@ export class Kanban implements Plugin {
     this._placeholder?.remove();
     this._placeholder = null;
 
+    this._swapTarget?.classList.remove(this._options.swapClass);
+    this._swapTarget = null;
+
     // Remove classes
     this._sourceContainer?.classList.remove('snap-kanban-source');
     this._targetContainer?.classList.remove('snap-kanban-target');
@@ -278,7 +430,10 @@ export class Kanban implements Plugin {
     // Reset state
     this._sourceContainer = null;
     this._targetContainer = null;
+    this._draggedElements = [];
     this._originalIndex = -1;
+    this._originalIndices = [];
+    this._originalContainers = [];
     this._currentIndex = -1;
 
     boundsCache.invalidateAll();
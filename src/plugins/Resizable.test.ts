@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ResizableOptions, SnapOptions } from '../types/index.js';
+import { Snap } from '../core/Snap.js';
+import { Resizable } from './Resizable.js';
+
+function pointer(type: string, target: EventTarget, x: number, y: number): void {
+  target.dispatchEvent(
+    new PointerEvent(type, {
+      bubbles: true,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      pointerId: 1,
+      isPrimary: true,
+      pointerType: 'mouse',
+    })
+  );
+}
+
+describe('Resizable', () => {
+  let container: HTMLElement;
+  let box: HTMLElement;
+  let snap: Snap;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="box" data-resizable data-draggable
+          style="position: absolute; left: 50px; top: 50px; box-sizing: border-box"></div>
+      </div>`;
+    container = document.getElementById('container')!;
+    box = document.getElementById('box')!;
+    box.getBoundingClientRect = () => new DOMRect(50, 50, 100, 80);
+    HTMLElement.prototype.setPointerCapture ??= () => {};
+  });
+
+  afterEach(() => {
+    snap.destroy();
+  });
+
+  function create(options: SnapOptions = {}, resizable: ResizableOptions = {}): Snap {
+    snap = new Snap(container, { throttle: false, ...options }).use(new Resizable(resizable));
+    return snap;
+  }
+
+  // Drag a handle by (dx, dy) and release it
+  function resize(handle: string, dx: number, dy: number, release = true): void {
+    const el = box.querySelector(`[data-resize-handle="${handle}"]`)!;
+    pointer('pointerdown', el, 100, 100);
+    pointer('pointermove', container, 100 + dx, 100 + dy);
+    if (release) pointer('pointerup', container, 100 + dx, 100 + dy);
+  }
+
+  it('adds the requested handles', () => {
+    create({}, { handles: ['e', 'se'] });
+
+    const handles = box.querySelectorAll<HTMLElement>('.snap-resize-handle');
+    expect(Array.from(handles, (el) => el.dataset.resizeHandle)).toEqual(['e', 'se']);
+  });
+
+  it('resizes from a corner without starting a drag', () => {
+    const onDragStart = vi.fn();
+    const onResize = vi.fn();
+    const onResizeEnd = vi.fn();
+    create({ onDragStart, onResize, onResizeEnd });
+
+    resize('se', 30, 20);
+
+    expect([box.style.width, box.style.height]).toEqual(['130px', '100px']);
+    expect(onResize).toHaveBeenCalledTimes(1);
+    expect(onResizeEnd.mock.calls[0][0]).toMatchObject({
+      handle: 'se',
+      width: 130,
+      height: 100,
+      cancelled: false,
+    });
+    expect(onDragStart).not.toHaveBeenCalled();
+    expect(box.classList.contains('snap-resizing')).toBe(false);
+  });
+
+  it('keeps the opposite edges in place from the north-west corner', () => {
+    create();
+
+    resize('nw', 20, 10);
+
+    expect([box.style.width, box.style.height]).toEqual(['80px', '70px']);
+    expect([box.style.left, box.style.top]).toEqual(['70px', '60px']);
+  });
+
+  it('clamps to the size limits', () => {
+    create({}, { minWidth: 90, maxHeight: 100 });
+
+    resize('se', -50, 50);
+
+    expect([box.style.width, box.style.height]).toEqual(['90px', '100px']);
+  });
+
+  it('keeps the aspect ratio', () => {
+    create({}, { aspectRatio: true });
+
+    resize('se', 50, 0);
+
+    expect([box.style.width, box.style.height]).toEqual(['150px', '120px']);
+  });
+
+  it('snaps the size to the grid', () => {
+    create({ grid: { x: 25, y: 25 } });
+
+    resize('e', 30, 0);
+
+    expect(box.style.width).toBe('125px');
+  });
+
+  it('puts the element back on Escape', () => {
+    const onResizeEnd = vi.fn();
+    create({ onResizeEnd });
+    box.style.width = '100px';
+
+    resize('nw', 20, 10, false);
+    expect(box.classList.contains('snap-resizing')).toBe(true);
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+    expect([box.style.width, box.style.height]).toEqual(['100px', '']);
+    expect([box.style.left, box.style.top]).toEqual(['50px', '50px']);
+    expect(onResizeEnd.mock.calls[0][0]).toMatchObject({
+      width: 100,
+      height: 80,
+      offset: { x: 0, y: 0 },
+      cancelled: true,
+    });
+  });
+
+  it('lets onResizeStart refuse the resize', () => {
+    const onResize = vi.fn();
+    create({ onResizeStart: () => false, onResize });
+
+    resize('se', 30, 20);
+
+    expect(box.style.width).toBe('');
+    expect(onResize).not.toHaveBeenCalled();
+  });
+
+  it('removes its handles on destroy', () => {
+    create();
+
+    snap.destroy();
+
+    expect(box.querySelectorAll('.snap-resize-handle')).toHaveLength(0);
+  });
+});
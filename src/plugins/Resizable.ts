@@ -0,0 +1,348 @@
+/**
+ * Resizable plugin - edge and corner handles that resize elements,
+ * driven by the same pointer sensor and drag state as dragging
+ */
+import type {
+  Plugin,
+  SnapInstance,
+  ResizableOptions,
+  ResizeHandle,
+  ResizeEvent,
+  DragSession,
+  Point,
+} from '../types/index.js';
+import { PointerSensor, type PointerStartEvent } from '../sensors/PointerSensor.js';
+import { DragState } from '../core/DragState.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+
+const allHandles: ResizeHandle[] = ['n', 'e', 's', 'w', 'ne', 'nw', 'se', 'sw'];
+
+const defaultOptions: ResizableOptions = {
+  items: '[data-resizable]',
+  handles: allHandles,
+  minWidth: 10,
+  minHeight: 10,
+  maxWidth: Infinity,
+  maxHeight: Infinity,
+  aspectRatio: false,
+  handleClass: 'snap-resize-handle',
+  resizingClass: 'snap-resizing',
+};
+
+const handleCursors: Record<ResizeHandle, string> = {
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+};
+
+// Element size, position and inline styles when the resize started
+interface ResizeStart {
+  handle: ResizeHandle;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  /** Whether left/top can move the element (it isn't statically positioned) */
+  positioned: boolean;
+  /** Padding and border to leave out of style.width/height for content-box sizing */
+  inset: Point;
+  style: { width: string; height: string; left: string; top: string };
+}
+
+export class Resizable implements Plugin {
+  name = 'resizable';
+
+  private _snap: SnapInstance | null = null;
+  private _options: ResizableOptions;
+  private _sensor: PointerSensor | null = null;
+  private _state = new DragState();
+  private _start: ResizeStart | null = null;
+  private _last: ResizeEvent | null = null;
+  private _handles = new Map<HTMLElement, HTMLElement[]>();
+
+  constructor(options: ResizableOptions = {}) {
+    this._options = { ...defaultOptions, ...options };
+  }
+
+  init(snap: SnapInstance): void {
+    this._snap = snap;
+
+    const container = this._getContainer();
+    if (!container) return;
+
+    // Capture phase keeps Snap's own sensor from starting a drag on a handle
+    this._sensor = new PointerSensor({
+      container,
+      draggableSelector: '[data-resize-handle]',
+      throttle: snap.options.throttle,
+      capture: true,
+    });
+
+    this._sensor.on('pointerdown', this._onPointerDown);
+    this._sensor.on('pointermove', (e) => this._state.updatePosition(e.position));
+    this._sensor.on('pointerup', () => this._end(false));
+    this._sensor.on('pointercancel', () => this._end(true));
+    this._state.on('dragmove', this._onResize);
+
+    this._sensor.attach();
+    this.refresh();
+  }
+
+  destroy(): void {
+    this._state.destroy();
+    this._sensor?.destroy();
+    this._sensor = null;
+
+    for (const element of Array.from(this._handles.keys())) {
+      this.remove(element);
+    }
+
+    this._snap = null;
+    this._start = null;
+    this._last = null;
+  }
+
+  /**
+   * Add handles to resizable elements added since init
+   */
+  refresh(): void {
+    const container = this._getContainer();
+    if (!container) return;
+
+    const selector = this._options.items ?? '[data-resizable]';
+    for (const element of container.querySelectorAll<HTMLElement>(selector)) {
+      this.add(element);
+    }
+  }
+
+  /**
+   * Make an element resizable
+   */
+  add(element: HTMLElement): void {
+    if (this._handles.has(element)) return;
+
+    // Handles are positioned against the element
+    if (getComputedStyle(element).position === 'static') {
+      element.style.position = 'relative';
+    }
+
+    const handles = (this._options.handles ?? allHandles).map((handle) => {
+      const el = this._createHandle(handle);
+      element.appendChild(el);
+      return el;
+    });
+
+    this._handles.set(element, handles);
+  }
+
+  /**
+   * Remove an element's handles
+   */
+  remove(element: HTMLElement): void {
+    for (const handle of this._handles.get(element) ?? []) {
+      handle.remove();
+    }
+    this._handles.delete(element);
+  }
+
+  private _onPointerDown = (e: PointerStartEvent): void => {
+    if (!this._snap) return;
+
+    const handle = e.element.dataset.resizeHandle as ResizeHandle;
+    const element = this._findResizable(e.element);
+    if (!element) return;
+
+    const rect = element.getBoundingClientRect();
+    const computed = getComputedStyle(element);
+
+    const start: ResizeStart = {
+      handle,
+      width: rect.width,
+      height: rect.height,
+      left: parseFloat(computed.left) || 0,
+      top: parseFloat(computed.top) || 0,
+      positioned: computed.position !== 'static',
+      inset:
+        computed.boxSizing === 'border-box'
+          ? { x: 0, y: 0 }
+          : {
+              x: rect.width - (parseFloat(computed.width) || rect.width),
+              y: rect.height - (parseFloat(computed.height) || rect.height),
+            },
+      style: {
+        width: element.style.width,
+        height: element.style.height,
+        left: element.style.left,
+        top: element.style.top,
+      },
+    };
+
+    const event: ResizeEvent = {
+      element,
+      handle,
+      width: rect.width,
+      height: rect.height,
+      offset: { x: 0, y: 0 },
+    };
+
+    // Without a session the rest of the gesture is ignored
+    if (this._snap.options.onResizeStart?.(event) === false) return;
+
+    this._start = start;
+    this._last = event;
+    element.classList.add(this._options.resizingClass ?? 'snap-resizing');
+    this._state.startDrag(element, e.position);
+  };
+
+  private _onResize = (session: DragSession): void => {
+    const start = this._start;
+    if (!start || !this._snap) return;
+
+    const { element } = session;
+    const { width, height } = this._getSize(start, session.delta);
+
+    // North and west handles keep the opposite edge in place
+    const offset: Point = {
+      x: start.handle.includes('w') ? start.width - width : 0,
+      y: start.handle.includes('n') ? start.height - height : 0,
+    };
+
+    element.style.width = `${width - start.inset.x}px`;
+    element.style.height = `${height - start.inset.y}px`;
+    if (start.positioned) {
+      element.style.left = `${start.left + offset.x}px`;
+      element.style.top = `${start.top + offset.y}px`;
+    }
+    boundsCache.invalidate(element);
+
+    this._last = { element, handle: start.handle, width, height, offset };
+    this._snap.options.onResize?.(this._last);
+  };
+
+  private _end(cancelled: boolean): void {
+    const start = this._start;
+    const last = this._last;
+    const session = cancelled ? this._state.cancelDrag() : this._state.endDrag();
+    this._start = null;
+    this._last = null;
+    if (!session || !start || !last) return;
+
+    const { element } = session;
+    element.classList.remove(this._options.resizingClass ?? 'snap-resizing');
+
+    // Put the element back the way it was
+    if (cancelled) {
+      Object.assign(element.style, start.style);
+      boundsCache.invalidate(element);
+    }
+
+    this._snap?.options.onResizeEnd?.({
+      ...last,
+      width: cancelled ? start.width : last.width,
+      height: cancelled ? start.height : last.height,
+      offset: cancelled ? { x: 0, y: 0 } : last.offset,
+      cancelled,
+    });
+  }
+
+  /**
+   * New size for a pointer delta: grid snapped, clamped and ratio locked
+   */
+  private _getSize(start: ResizeStart, delta: Point): { width: number; height: number } {
+    const { handle } = start;
+    const horizontal = handle.includes('e') || handle.includes('w');
+    const vertical = handle.includes('n') || handle.includes('s');
+
+    let width = start.width;
+    let height = start.height;
+    if (horizontal) width = Math.max(1, width + (handle.includes('w') ? -delta.x : delta.x));
+    if (vertical) height = Math.max(1, height + (handle.includes('n') ? -delta.y : delta.y));
+
+    const grid = this._snap?.options.grid;
+    if (grid) {
+      width = Math.round(width / grid.x) * grid.x;
+      height = Math.round(height / grid.y) * grid.y;
+    }
+
+    const ratio = this._getAspectRatio(start);
+    if (ratio) {
+      // The dimension being dragged drives the other one
+      const byWidth =
+        horizontal && (!vertical || Math.abs(width - start.width) >= Math.abs(height - start.height));
+      if (byWidth) {
+        height = width / ratio;
+      } else {
+        width = height * ratio;
+      }
+    }
+
+    return this._clamp(width, height, ratio);
+  }
+
+  private _clamp(width: number, height: number, ratio: number | null): { width: number; height: number } {
+    const minWidth = this._options.minWidth ?? 0;
+    const minHeight = this._options.minHeight ?? 0;
+    const maxWidth = this._options.maxWidth ?? Infinity;
+    const maxHeight = this._options.maxHeight ?? Infinity;
+
+    const clampedWidth = Math.max(minWidth, Math.min(maxWidth, width));
+    const clampedHeight = Math.max(minHeight, Math.min(maxHeight, height));
+    if (!ratio) return { width: clampedWidth, height: clampedHeight };
+
+    // Scale both sides together so the ratio survives the limits, minimums win
+    const grow = Math.max(1, minWidth / width, minHeight / height);
+    const shrink = Math.min(1, maxWidth / width, maxHeight / height);
+    const scale = grow > 1 ? grow : shrink;
+    return { width: width * scale, height: height * scale };
+  }
+
+  private _getAspectRatio(start: ResizeStart): number | null {
+    const { aspectRatio } = this._options;
+    if (typeof aspectRatio === 'number') return aspectRatio;
+    if (aspectRatio && start.height > 0) return start.width / start.height;
+    return null;
+  }
+
+  private _findResizable(handle: HTMLElement): HTMLElement | null {
+    for (const [element, handles] of this._handles) {
+      if (handles.includes(handle)) return element;
+    }
+    return null;
+  }
+
+  private _createHandle(handle: ResizeHandle): HTMLElement {
+    const el = document.createElement('div');
+    el.className = this._options.handleClass ?? 'snap-resize-handle';
+    el.dataset.resizeHandle = handle;
+
+    const size = 8;
+    const vertical = handle.includes('n') ? 'top' : handle.includes('s') ? 'bottom' : null;
+    const horizontal = handle.includes('w') ? 'left' : handle.includes('e') ? 'right' : null;
+
+    // Edges span the side, corners sit on top of the edges
+    el.style.cssText = `
+      position: absolute;
+      ${vertical ? `${vertical}: ${-size / 2}px;` : 'top: 0; bottom: 0;'}
+      ${horizontal ? `${horizontal}: ${-size / 2}px;` : 'left: 0; right: 0;'}
+      ${horizontal ? `width: ${size}px;` : ''}
+      ${vertical ? `height: ${size}px;` : ''}
+      z-index: ${horizontal && vertical ? 2 : 1};
+      cursor: ${handleCursors[handle]};
+      touch-action: none;
+    `;
+
+    return el;
+  }
+
+  private _getContainer(): HTMLElement | ShadowRoot | null {
+    if (!this._snap) return null;
+
+    // Same internal access as FileDrop
+    return (this._snap as unknown as { _container: HTMLElement | ShadowRoot })._container;
+  }
+}
@@ -5,14 +5,20 @@ import type {
   Plugin,
   SnapInstance,
   SortableOptions,
+  VirtualListOptions,
   DragSession,
+  Point,
 } from '../types/index.js';
-import { boundsCache, rectCenter } from '../utils/BoundsCache.js';
+import { boundsCache, pointInRect } from '../utils/BoundsCache.js';
+import { getInsertionIndex, swapElements } from '../utils/Layout.js';
+import { wrapCallbacks } from '../utils/Callbacks.js';
 
 const defaultOptions: SortableOptions = {
   animation: 150,
   ghostClass: 'snap-sortable-ghost',
   placeholderClass: 'snap-sortable-placeholder',
+  mode: 'insert',
+  swapClass: 'snap-swap-target',
 };
 
 export class Sortable implements Plugin {
@@ -22,12 +28,32 @@ export class Sortable implements Plugin {
   private _options: SortableOptions;
   private _placeholder: HTMLElement | null = null;
   private _draggedElement: HTMLElement | null = null;
+  private _draggedElements: HTMLElement[] = [];
   private _originalIndex: number = -1;
+  private _originalIndices: number[] = [];
+  private _originalContainers: (HTMLElement | null)[] = [];
   private _currentIndex: number = -1;
   private _container: HTMLElement | null = null;
   private _items: HTMLElement[] = [];
+
+  // Swap mode: the item the dragged one will trade places with
+  private _swapTarget: HTMLElement | null = null;
+
+  // Virtualized lists: dragged items by full-list index, and each item's
+  // start offset in the scroll content (one extra entry for the end)
+  private _virtualIndices: number[] = [];
+  private _offsets: number[] = [];
+  private _pointer: Point | null = null;
+  private _scrollerPosition: string | null = null;
+
   private _unsubscribers: (() => void)[] = [];
 
+  // The drag this plugin follows; other multiTouch drags pass through
+  private _sessionId: string | null = null;
+
+  // Puts back the callbacks init() wrapped
+  private _restoreCallbacks: (() => void) | null = null;
+
   constructor(options: SortableOptions = {}) {
     this._options = { ...defaultOptions, ...options };
   }
@@ -42,26 +68,47 @@ export class Sortable implements Plugin {
     const originalOnDrop = snap.options.onDrop;
     const originalOnDragEnd = snap.options.onDragEnd;
 
-    snap.setOptions({
+    this._restoreCallbacks = wrapCallbacks(snap, {
       onDragStart: (e) => {
-        this._onDragStart(e.element);
-        return originalOnDragStart?.(e);
+        const own = this._sessionId === null;
+        if (own) {
+          this._sessionId = e.sessionId;
+          this._onDragStart(e.element, e.elements);
+        }
+
+        // A start cancelled here gets no onDragEnd
+        const result = originalOnDragStart?.(e);
+        if (own && result === false) {
+          this._onDragEnd(true);
+          this._sessionId = null;
+        }
+        return result;
       },
       onDragMove: (e) => {
-        this._onDragMove(e.position.x, e.position.y);
+        if (e.sessionId === this._sessionId) {
+          this._onDragMove(e.position.x, e.position.y);
+        }
         originalOnDragMove?.(e);
       },
       onDrop: (e) => {
+        // Destroyed under a later plugin's wrapper, this one stays in the chain
+        if (!this._snap || e.sessionId !== this._sessionId) return originalOnDrop?.(e);
+
         // Add insertion index to event
         const enhancedEvent = {
           ...e,
           insertionIndex: this._currentIndex,
           sourceContainer: this._container ?? undefined,
+          originalIndices: this._originalIndices,
+          swapTarget: this._swapTarget ?? undefined,
         };
         originalOnDrop?.(enhancedEvent);
       },
       onDragEnd: (e) => {
-        this._onDragEnd();
+        if (e.sessionId === this._sessionId) {
+          this._onDragEnd(e.cancelled);
+          this._sessionId = null;
+        }
         originalOnDragEnd?.(e);
       },
     });
@@ -73,26 +120,39 @@ export class Sortable implements Plugin {
       unsub();
     }
     this._unsubscribers = [];
+    this._restoreCallbacks?.();
+    this._restoreCallbacks = null;
     this._snap = null;
   }
 
-  private _onDragStart(element: HTMLElement): void {
-    // Store reference to dragged element
+  private _onDragStart(element: HTMLElement, elements: HTMLElement[]): void {
+    if (!this._snap) return;
+
+    // Store reference to dragged element (and the rest of a multi-select group)
     this._draggedElement = element;
+    this._draggedElements = elements;
+
+    if (this._options.virtual) {
+      this._onVirtualDragStart(element, elements, this._options.virtual);
+      return;
+    }
 
     // Find container and items
     this._container = element.parentElement;
     if (!this._container) return;
 
-    const selector = this._snap?.options.draggableSelector ?? '[data-draggable]';
-    // Only get direct children that match the selector (not nested draggables)
-    this._items = Array.from(
-      this._container.querySelectorAll<HTMLElement>(`:scope > ${selector}`)
-    );
+    // Only direct children (not nested draggables)
+    this._items = this._getItems(this._container);
 
     this._originalIndex = this._items.indexOf(element);
     this._currentIndex = this._originalIndex;
 
+    // Group members may come from other containers
+    this._originalContainers = elements.map((el) => el.parentElement);
+    this._originalIndices = elements.map((el) =>
+      el.parentElement ? this._getItems(el.parentElement).indexOf(el) : -1
+    );
+
     if (this._originalIndex === -1) return;
 
     // Create placeholder
@@ -100,59 +160,242 @@ export class Sortable implements Plugin {
 
     // Add ghost class
     if (this._options.ghostClass) {
-      element.classList.add(this._options.ghostClass);
+      for (const el of elements) {
+        el.classList.add(this._options.ghostClass);
+      }
     }
   }
 
   private _onDragMove(x: number, y: number): void {
     if (!this._placeholder || !this._container) return;
 
-    const selector = this._snap?.options.draggableSelector ?? '[data-draggable]';
+    if (this._options.virtual) {
+      this._pointer = { x, y };
+      this._updateVirtualIndex(this._options.virtual);
+      return;
+    }
 
     // Get current items (direct children only, excluding the dragged element and placeholder)
-    const items = Array.from(
-      this._container.querySelectorAll<HTMLElement>(`:scope > ${selector}`)
-    ).filter((el) => el !== this._draggedElement && el !== this._placeholder);
+    const items = this._getItems(this._container).filter(
+      (el) => !this._draggedElements.includes(el) && el !== this._placeholder
+    );
+
+    if (this._options.mode === 'swap') {
+      this._updateSwapTarget(items, x, y);
+      return;
+    }
 
     if (items.length === 0) {
       this._currentIndex = 0;
       return;
     }
 
-    // Determine list orientation
-    const firstRect = boundsCache.get(items[0]);
-    const lastRect = boundsCache.get(items[items.length - 1]);
-    const isVertical =
-      Math.abs(lastRect.top - firstRect.top) >
-      Math.abs(lastRect.left - firstRect.left);
-
-    // Find new index based on cursor position relative to item centers
-    let newIndex = items.length;
-    for (let i = 0; i < items.length; i++) {
-      const rect = boundsCache.get(items[i]);
-      const center = rectCenter(rect);
-
-      if (isVertical) {
-        if (y < center.y) {
-          newIndex = i;
-          break;
-        }
+    // Find new index by nearest row, then column (wrapped layouts have several rows)
+    const newIndex = getInsertionIndex(
+      items.map((item) => boundsCache.get(item)),
+      x,
+      y
+    );
+
+    if (newIndex !== this._currentIndex) {
+      const previousIndex = this._currentIndex;
+      this._currentIndex = newIndex;
+      this._movePlaceholder(newIndex);
+
+      if (this._draggedElement) {
+        this._snap?.options.onSort?.({
+          element: this._draggedElement,
+          container: this._container,
+          index: newIndex,
+          previousIndex,
+        });
+      }
+    }
+  }
+
+  /**
+   * Swap mode: the item under the pointer trades places with the dragged one
+   */
+  private _updateSwapTarget(items: HTMLElement[], x: number, y: number): void {
+    if (!this._container) return;
+
+    const target = items.find((item) => pointInRect(x, y, boundsCache.get(item))) ?? null;
+    if (target === this._swapTarget) return;
+
+    if (this._options.swapClass) {
+      this._swapTarget?.classList.remove(this._options.swapClass);
+      target?.classList.add(this._options.swapClass);
+    }
+    this._swapTarget = target;
+
+    // The dragged item ends up at the target's index, or stays put
+    const previousIndex = this._currentIndex;
+    this._currentIndex = target
+      ? this._getItems(this._container).indexOf(target)
+      : this._originalIndex;
+
+    if (this._currentIndex !== previousIndex && this._draggedElement) {
+      this._snap?.options.onSort?.({
+        element: this._draggedElement,
+        container: this._container,
+        index: this._currentIndex,
+        previousIndex,
+      });
+    }
+  }
+
+  private _onDragEnd(cancelled: boolean): void {
+    this._cleanup(cancelled);
+  }
+
+  private _onVirtualDragStart(
+    element: HTMLElement,
+    elements: HTMLElement[],
+    virtual: VirtualListOptions
+  ): void {
+    // Rows are recycled by the list, so dragged items are tracked by index
+    this._container = element.parentElement;
+    this._originalIndex = virtual.getIndex(element);
+    this._originalIndices = elements.map((el) => virtual.getIndex(el));
+    this._virtualIndices = this._originalIndices.filter((i) => i >= 0).sort((a, b) => a - b);
+    this._currentIndex = this._originalIndex;
+
+    if (!this._container || this._originalIndex === -1) return;
+
+    this._measure(virtual);
+    this._createVirtualPlaceholder(virtual);
+    this._syncRows(virtual);
+
+    // Scrolling (by hand or AutoScroll) moves the list under a still pointer
+    virtual.scrollElement.addEventListener('scroll', this._onVirtualScroll, { passive: true });
+  }
+
+  private _onVirtualScroll = (): void => {
+    const virtual = this._options.virtual;
+    if (!virtual || !this._placeholder) return;
+
+    // Newly rendered rows may have been measured
+    this._measure(virtual);
+    this._syncRows(virtual);
+    this._updateVirtualIndex(virtual);
+  };
+
+  private _updateVirtualIndex(virtual: VirtualListOptions): void {
+    if (!this._placeholder || !this._container || !this._pointer) return;
+
+    // Pointer in scroll content coordinates along the list axis
+    const scroller = virtual.scrollElement;
+    const rect = scroller.getBoundingClientRect();
+    const vertical = (virtual.axis ?? 'y') === 'y';
+    const position = vertical
+      ? this._pointer.y - rect.top - scroller.clientTop + scroller.scrollTop
+      : this._pointer.x - rect.left - scroller.clientLeft + scroller.scrollLeft;
+
+    // Binary search for the first item whose center is past the pointer
+    const offsets = this._offsets;
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if ((offsets[mid] + offsets[mid + 1]) / 2 <= position) {
+        low = mid + 1;
       } else {
-        if (x < center.x) {
-          newIndex = i;
-          break;
-        }
+        high = mid;
       }
     }
 
+    // Either side of a dragged item is the same slot, keep it before the item
+    let slot = low;
+    while (slot > 0 && this._virtualIndices.includes(slot - 1)) {
+      slot--;
+    }
+
+    // Index in the list without the dragged items, as for DOM lists
+    const newIndex = slot - this._virtualIndices.filter((i) => i < slot).length;
+    this._placeholder.style[vertical ? 'top' : 'left'] = `${offsets[slot]}px`;
+
     if (newIndex !== this._currentIndex) {
+      const previousIndex = this._currentIndex;
       this._currentIndex = newIndex;
-      this._movePlaceholder(newIndex);
+
+      if (this._draggedElement) {
+        this._snap?.options.onSort?.({
+          element: this._draggedElement,
+          container: this._container,
+          index: newIndex,
+          previousIndex,
+        });
+      }
     }
   }
 
-  private _onDragEnd(): void {
-    this._cleanup();
+  /**
+   * Start offset of every item from the app's item sizes
+   */
+  private _measure(virtual: VirtualListOptions): void {
+    const count = virtual.getCount();
+    const offsets = new Array<number>(count + 1);
+    offsets[0] = virtual.offset ?? 0;
+    for (let i = 0; i < count; i++) {
+      offsets[i + 1] = offsets[i] + virtual.getItemSize(i);
+    }
+    this._offsets = offsets;
+  }
+
+  private _createVirtualPlaceholder(virtual: VirtualListOptions): void {
+    const scroller = virtual.scrollElement;
+
+    // Absolute children of a positioned scroller scroll with its content
+    if (window.getComputedStyle(scroller).position === 'static') {
+      this._scrollerPosition = scroller.style.position;
+      scroller.style.position = 'relative';
+    }
+
+    // A line at the insertion point; rows belong to the list and aren't moved
+    this._placeholder = document.createElement('div');
+    this._placeholder.className = this._options.placeholderClass ?? '';
+    this._placeholder.dataset.virtual = '';
+    this._placeholder.style.cssText = (virtual.axis ?? 'y') === 'y'
+      ? 'position: absolute; left: 0; right: 0; height: 0; pointer-events: none;'
+      : 'position: absolute; top: 0; bottom: 0; width: 0; pointer-events: none;';
+    scroller.appendChild(this._placeholder);
+  }
+
+  /**
+   * Mark the rendered rows showing dragged items
+   */
+  private _syncRows(virtual: VirtualListOptions): void {
+    if (!this._container) return;
+
+    for (const row of this._getItems(this._container)) {
+      const dragged = this._virtualIndices.includes(virtual.getIndex(row));
+      row.classList.toggle('snap-dragging', dragged);
+      if (this._options.ghostClass) {
+        row.classList.toggle(this._options.ghostClass, dragged);
+      }
+    }
+  }
+
+  private _cleanupVirtual(virtual: VirtualListOptions): void {
+    virtual.scrollElement.removeEventListener('scroll', this._onVirtualScroll);
+
+    if (this._scrollerPosition !== null) {
+      virtual.scrollElement.style.position = this._scrollerPosition;
+      this._scrollerPosition = null;
+    }
+
+    if (this._container) {
+      for (const row of this._getItems(this._container)) {
+        row.classList.remove('snap-dragging');
+        if (this._options.ghostClass) {
+          row.classList.remove(this._options.ghostClass);
+        }
+      }
+    }
+
+    this._virtualIndices = [];
+    this._offsets = [];
+    this._pointer = null;
   }
 
   private _createPlaceholder(element: HTMLElement): void {
@@ -168,8 +411,17 @@ export class Sortable implements Plugin {
       box-sizing: border-box;
     `;
 
-    // Completely hide the original element (display:none removes from flow entirely)
-    element.style.display = 'none';
+    // Take up as many grid cells as the dragged tile
+    for (const prop of ['gridColumnEnd', 'gridRowEnd'] as const) {
+      if (computedStyle[prop].startsWith('span')) {
+        this._placeholder.style[prop] = computedStyle[prop];
+      }
+    }
+
+    // Completely hide the dragged elements (display:none removes from flow entirely)
+    for (const el of this._draggedElements) {
+      el.style.display = 'none';
+    }
 
     // Insert placeholder right after the hidden element
     element.parentNode?.insertBefore(this._placeholder, element.nextSibling);
@@ -178,12 +430,13 @@ export class Sortable implements Plugin {
   private _movePlaceholder(index: number): void {
     if (!this._placeholder || !this._container) return;
 
-    const selector = this._snap?.options.draggableSelector ?? '[data-draggable]';
-
     // Direct children only
-    const items = Array.from(
-      this._container.querySelectorAll<HTMLElement>(`:scope > ${selector}`)
-    ).filter((el) => el !== this._draggedElement);
+    const items = this._getItems(this._container).filter(
+      (el) => !this._draggedElements.includes(el)
+    );
+
+    // Measure before the move so shifted items can animate
+    const positions = this._measureItems();
 
     // Remove placeholder from current position
     this._placeholder.remove();
@@ -203,39 +456,42 @@ export class Sortable implements Plugin {
         this._container.appendChild(this._placeholder);
       }
     }
+    boundsCache.invalidateAll();
 
     // Animate other items if animation enabled
     if (this._options.animation && this._options.animation > 0) {
-      this._animateItems();
+      this._animateItems(positions);
     }
   }
 
-  private _animateItems(): void {
-    if (!this._container) return;
-
-    const selector = this._snap?.options.draggableSelector ?? '[data-draggable]';
+  /**
+   * Current positions of the items that may shift, before the layout changes
+   */
+  private _measureItems(): Map<HTMLElement, DOMRect> {
+    const positions = new Map<HTMLElement, DOMRect>();
+    if (!this._options.animation || !this._container) return positions;
 
     // Direct children only
-    const items = Array.from(
-      this._container.querySelectorAll<HTMLElement>(`:scope > ${selector}`)
-    ).filter((el) => el !== this._draggedElement && el !== this._placeholder);
-
-    // Get positions before
-    const positions = new Map<HTMLElement, DOMRect>();
-    for (const item of items) {
+    for (const item of this._getItems(this._container)) {
+      if (this._draggedElements.includes(item) || item === this._placeholder) continue;
       positions.set(item, item.getBoundingClientRect());
     }
+    return positions;
+  }
 
-    // Force reflow
-    void this._container.offsetHeight;
+  private _animateItems(positions: Map<HTMLElement, DOMRect>): void {
+    // Drop transforms left from an unfinished animation, so the new
+    // layout is measured where items actually sit
+    for (const item of positions.keys()) {
+      if (item.style.transform) {
+        item.style.transition = 'none';
+        item.style.transform = '';
+      }
+    }
 
-    // Animate from old to new positions
-    for (const item of items) {
-      const oldRect = positions.get(item);
+    // Animate from where each item was drawn to its new position
+    for (const [item, oldRect] of positions) {
       const newRect = item.getBoundingClientRect();
-
-      if (!oldRect) continue;
-
       const dx = oldRect.left - newRect.left;
       const dy = oldRect.top - newRect.top;
 
@@ -247,24 +503,85 @@ export class Sortable implements Plugin {
           item.style.transition = `transform ${this._options.animation}ms ease`;
           item.style.transform = '';
         });
+
+        // Rects measured mid-flight are stale once the item settles
+        item.addEventListener('transitionend', () => boundsCache.invalidate(item), {
+          once: true,
+        });
       }
     }
   }
 
-  private _cleanup(): void {
-    // Move element to placeholder position (auto-sort)
-    if (this._draggedElement && this._placeholder && this._placeholder.parentNode) {
-      // Insert element where placeholder is
-      this._placeholder.parentNode.insertBefore(this._draggedElement, this._placeholder);
+  /**
+   * Direct children that are draggable (declarative or imperative)
+   */
+  private _getItems(container: HTMLElement): HTMLElement[] {
+    const items: HTMLElement[] = [];
+    for (const child of container.children) {
+      if (child instanceof HTMLElement && this._snap?.isDraggable(child)) {
+        items.push(child);
+      }
     }
+    return items;
+  }
 
-    // Restore element visibility
-    if (this._draggedElement) {
-      this._draggedElement.style.display = '';
+  /**
+   * Put each dragged element back at its original index in its source container
+   */
+  private _restoreOriginalPositions(): void {
+    const restores = this._draggedElements
+      .map((element, i) => ({
+        element,
+        container: this._originalContainers[i],
+        index: this._originalIndices[i],
+      }))
+      .filter((r) => r.index >= 0)
+      .sort((a, b) => a.index - b.index);
+
+    // Place in ascending index order so earlier indices are already settled
+    const pending = new Set(restores.map((r) => r.element));
+    for (const { element, container, index } of restores) {
+      pending.delete(element);
+      if (!container) continue;
+
+      const items = this._getItems(container).filter(
+        (el) => el !== element && !pending.has(el)
+      );
+      const before = items[index] ?? items[items.length - 1]?.nextSibling ?? null;
+      container.insertBefore(element, before);
+    }
+  }
 
-      // Remove ghost class
-      if (this._options.ghostClass) {
-        this._draggedElement.classList.remove(this._options.ghostClass);
+  private _cleanup(restore = false): void {
+    let swapped: Map<HTMLElement, DOMRect> | null = null;
+
+    if (this._options.virtual) {
+      // The app moves the item in its data from onDrop, the list re-renders
+      this._cleanupVirtual(this._options.virtual);
+    } else {
+      if (restore) {
+        this._restoreOriginalPositions();
+      } else if (this._options.mode === 'swap') {
+        // Only the primary item trades places, the rest of a group stays put
+        if (this._swapTarget && this._draggedElement) {
+          swapped = this._measureItems();
+          swapElements(this._draggedElement, this._swapTarget);
+        }
+      } else if (this._placeholder && this._placeholder.parentNode) {
+        // Move elements to placeholder position (auto-sort), keeping group order
+        for (const el of this._draggedElements) {
+          this._placeholder.parentNode.insertBefore(el, this._placeholder);
+        }
+      }
+
+      // Restore element visibility
+      for (const el of this._draggedElements) {
+        el.style.display = '';
+
+        // Remove ghost class
+        if (this._options.ghostClass) {
+          el.classList.remove(this._options.ghostClass);
+        }
       }
     }
 
@@ -272,11 +589,23 @@ export class Sortable implements Plugin {
     this._placeholder?.remove();
     this._placeholder = null;
 
+    // The swapped item slides over once the dragged item is back in flow
+    if (swapped) {
+      this._animateItems(swapped);
+    }
+    if (this._swapTarget && this._options.swapClass) {
+      this._swapTarget.classList.remove(this._options.swapClass);
+    }
+    this._swapTarget = null;
+
     // Reset state
     this._draggedElement = null;
+    this._draggedElements = [];
     this._container = null;
     this._items = [];
     this._originalIndex = -1;
+    this._originalIndices = [];
+    this._originalContainers = [];
     this._currentIndex = -1;
 
     // Invalidate bounds cache
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SortableTreeOptions, SnapOptions } from '../types/index.js';
+import { Snap } from '../core/Snap.js';
+import { SortableTree } from './SortableTree.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+
+// Rows are 30px tall; B's children sit below its own row
+const rows: Record<string, [top: number, bottom: number]> = {
+  tree: [0, 150],
+  a: [0, 30],
+  b: [30, 120],
+  'b-children': [60, 120],
+  b1: [60, 90],
+  b2: [90, 120],
+  c: [120, 150],
+};
+
+function pointer(type: string, target: EventTarget, x: number, y: number): void {
+  target.dispatchEvent(
+    new PointerEvent(type, {
+      bubbles: true,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      pointerId: 1,
+      isPrimary: true,
+      pointerType: 'mouse',
+    })
+  );
+}
+
+describe('SortableTree', () => {
+  let container: HTMLElement;
+  let tree: HTMLElement;
+  let snap: Snap;
+  let onDrop: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <ul id="tree" data-droppable>
+          <li data-draggable data-drag-id="a">A</li>
+          <li data-draggable data-drag-id="b">B
+            <ul id="b-children">
+              <li data-draggable data-drag-id="b1">B1</li>
+              <li data-draggable data-drag-id="b2">B2</li>
+            </ul>
+          </li>
+          <li data-draggable data-drag-id="c">C</li>
+        </ul>
+      </div>`;
+    container = document.getElementById('container')!;
+    tree = document.getElementById('tree')!;
+    const measured = document.querySelectorAll<HTMLElement>('#tree, #b-children, [data-drag-id]');
+    for (const element of measured) {
+      const [top, bottom] = rows[element.id || element.dataset.dragId!];
+      element.getBoundingClientRect = () => new DOMRect(0, top, 200, bottom - top);
+    }
+    boundsCache.invalidateAll();
+    HTMLElement.prototype.setPointerCapture ??= () => {};
+    onDrop = vi.fn();
+  });
+
+  afterEach(() => {
+    snap.destroy();
+    vi.useRealTimers();
+  });
+
+  function create(options: SortableTreeOptions = {}, snapOptions: SnapOptions = {}): Snap {
+    snap = new Snap(container, { throttle: false, onDrop, ...snapOptions }).use(
+      new SortableTree({ animation: 0, ...options })
+    );
+    return snap;
+  }
+
+  function item(id: string): HTMLElement {
+    return document.querySelector<HTMLElement>(`[data-drag-id="${id}"]`)!;
+  }
+
+  // Drag an item by its left edge, `y` into its row
+  function drag(id: string, to: { x: number; y: number }, release = true): void {
+    const y = rows[id][0] + 15;
+    pointer('pointerdown', item(id), 10, y);
+    pointer('pointermove', container, 10 + to.x, to.y);
+    if (release) pointer('pointerup', container, 10 + to.x, to.y);
+  }
+
+  function outline(list: Element = tree): string[] {
+    return Array.from(list.children)
+      .filter((el) => el.matches('[data-draggable]'))
+      .map((el) => {
+        const children = Array.from(el.children).find((child) => child.tagName === 'UL');
+        return children && children.children.length > 0
+          ? `${(el as HTMLElement).dataset.dragId}(${outline(children).join(' ')})`
+          : (el as HTMLElement).dataset.dragId!;
+      });
+  }
+
+  it('reorders root items', () => {
+    create();
+
+    drag('c', { x: 0, y: 5 });
+
+    expect(outline()).toEqual(['c', 'a', 'b(b1 b2)']);
+    expect(onDrop.mock.calls[0][0]).toMatchObject({ parentId: null, depth: 0, insertionIndex: 0 });
+  });
+
+  it('nests an item dropped onto the middle of another', () => {
+    create();
+
+    drag('a', { x: 0, y: 135 });
+
+    expect(outline()).toEqual(['b(b1 b2)', 'c(a)']);
+    expect(onDrop.mock.calls[0][0]).toMatchObject({ parentId: 'c', depth: 1, insertionIndex: 0 });
+  });
+
+  it('sets the depth from the horizontal offset', () => {
+    create();
+
+    // Just below B2, one indentation to the right
+    drag('c', { x: 24, y: 118 });
+
+    expect(outline()).toEqual(['a', 'b(b1 b2 c)']);
+    expect(onDrop.mock.calls[0][0]).toMatchObject({ parentId: 'b', depth: 1, insertionIndex: 2 });
+  });
+
+  it('moves an item together with its children', () => {
+    create();
+
+    drag('b', { x: 0, y: 148 });
+
+    expect(outline()).toEqual(['a', 'c', 'b(b1 b2)']);
+  });
+
+  it('stays within maxDepth', () => {
+    create({ maxDepth: 1 });
+
+    // Two levels to the right, and the middle of B2 can't take a child
+    drag('c', { x: 48, y: 118 });
+    expect(outline()).toEqual(['a', 'b(b1 b2 c)']);
+
+    drag('a', { x: 0, y: 105 });
+    expect(outline()).toEqual(['b(b1 b2 a c)']);
+  });
+
+  it('puts everything back on cancel', () => {
+    create();
+
+    drag('a', { x: 0, y: 135 }, false);
+    expect(tree.querySelector('.snap-tree-placeholder')).not.toBeNull();
+    expect(item('c').classList.contains('snap-tree-drop-into')).toBe(true);
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+    expect(outline()).toEqual(['a', 'b(b1 b2)', 'c']);
+    expect(item('a').style.display).toBe('');
+    expect(tree.querySelector('.snap-tree-placeholder')).toBeNull();
+    expect(tree.querySelector('.snap-tree-drop-into')).toBeNull();
+    // The child list made for the preview is gone
+    expect(item('c').children).toHaveLength(0);
+    expect(onDrop).not.toHaveBeenCalled();
+  });
+
+  it('expands a collapsed item after hovering it', () => {
+    vi.useFakeTimers();
+    const onExpand = vi.fn();
+    item('b').classList.add('snap-tree-collapsed');
+    create({ expandDelay: 300, onExpand });
+
+    drag('a', { x: 0, y: 45 }, false);
+    vi.advanceTimersByTime(299);
+    expect(onExpand).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpand).toHaveBeenCalledWith(item('b'));
+    expect(item('b').classList.contains('snap-tree-collapsed')).toBe(false);
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * SortableTree plugin - reorder items within nested lists
+ * Horizontal drag offset sets the depth, dropping onto the middle of an
+ * item makes it a child, and collapsed items expand on hover
+ */
+import type {
+  Plugin,
+  SnapInstance,
+  SortableTreeOptions,
+  Point,
+} from '../types/index.js';
+import { boundsCache } from '../utils/BoundsCache.js';
+import { wrapCallbacks } from '../utils/Callbacks.js';
+
+const defaultOptions: Required<SortableTreeOptions> = {
+  indentation: 24,
+  maxDepth: Infinity,
+  childrenSelector: 'ul, ol, [data-tree-children]',
+  collapsedClass: 'snap-tree-collapsed',
+  expandDelay: 600,
+  onExpand: () => {},
+  getId: (element) => element.dataset.dragId ?? null,
+  animation: 150,
+  placeholderClass: 'snap-tree-placeholder',
+};
+
+// Visible tree item in document order
+interface TreeItem {
+  element: HTMLElement;
+  depth: number;
+}
+
+// Where the dragged item would land
+interface TreePlacement {
+  parent: HTMLElement | null;
+  before: HTMLElement | null;
+  depth: number;
+  /** Set when dropping onto the middle of an item */
+  into: HTMLElement | null;
+}
+
+export class SortableTree implements Plugin {
+  name = 'sortable-tree';
+
+  private _snap: SnapInstance | null = null;
+  private _options: Required<SortableTreeOptions>;
+  private _root: HTMLElement | null = null;
+  private _placeholder: HTMLElement | null = null;
+  private _draggedElement: HTMLElement | null = null;
+  private _draggedElements: HTMLElement[] = [];
+  private _originalDepth = 0;
+  private _subtreeHeight = 0;
+  private _placement: TreePlacement | null = null;
+  private _currentIndex = -1;
+  private _createdContainers: HTMLElement[] = [];
+  private _expandTimer: number | null = null;
+  private _expandTarget: HTMLElement | null = null;
+
+  // The drag this plugin follows; other multiTouch drags pass through
+  private _sessionId: string | null = null;
+
+  // Puts back the callbacks init() wrapped
+  private _restoreCallbacks: (() => void) | null = null;
+
+  constructor(options: SortableTreeOptions = {}) {
+    this._options = { ...defaultOptions, ...options };
+  }
+
+  init(snap: SnapInstance): void {
+    this._snap = snap;
+
+    // Wrap snap callbacks
+    const originalOnDragStart = snap.options.onDragStart;
+    const originalOnDragMove = snap.options.onDragMove;
+    const originalOnDrop = snap.options.onDrop;
+    const originalOnDragEnd = snap.options.onDragEnd;
+
+    this._restoreCallbacks = wrapCallbacks(snap, {
+      onDragStart: (e) => {
+        const own = this._sessionId === null;
+        if (own) {
+          this._sessionId = e.sessionId;
+          this._onDragStart(e.element, e.elements);
+        }
+
+        // A start cancelled here gets no onDragEnd
+        const result = originalOnDragStart?.(e);
+        if (own && result === false) {
+          this._onDragEnd(true);
+          this._sessionId = null;
+        }
+        return result;
+      },
+      onDragMove: (e) => {
+        if (e.sessionId === this._sessionId) {
+          this._onDragMove(e.position, e.delta);
+        }
+        originalOnDragMove?.(e);
+      },
+      onDrop: (e) => {
+        // Destroyed under a later plugin's wrapper, this one stays in the chain
+        if (!this._snap || e.sessionId !== this._sessionId) return originalOnDrop?.(e);
+
+        const parent = this._placement?.parent ?? null;
+        const enhancedEvent = {
+          ...e,
+          insertionIndex: this._currentIndex,
+          sourceContainer: this._root ?? undefined,
+          parentId: parent ? this._options.getId(parent) : null,
+          depth: this._placement?.depth ?? this._originalDepth,
+        };
+        originalOnDrop?.(enhancedEvent);
+      },
+      onDragEnd: (e) => {
+        if (e.sessionId === this._sessionId) {
+          this._onDragEnd(e.cancelled);
+          this._sessionId = null;
+        }
+        originalOnDragEnd?.(e);
+      },
+    });
+  }
+
+  destroy(): void {
+    this._cleanup(true);
+    this._restoreCallbacks?.();
+    this._restoreCallbacks = null;
+    this._snap = null;
+  }
+
+  private _onDragStart(element: HTMLElement, elements: HTMLElement[]): void {
+    if (!this._snap) return;
+
+    this._root = this._findRoot(element);
+    if (!this._root) return;
+
+    this._draggedElement = element;
+
+    // Children of a dragged item travel with it
+    this._draggedElements = elements.filter(
+      (el) => !elements.some((other) => other !== el && other.contains(el))
+    );
+
+    this._originalDepth = this._getDepth(element);
+    this._subtreeHeight = this._getSubtreeHeight(element);
+    this._currentIndex = this._getSiblingItems(element.parentElement).indexOf(element);
+
+    this._createPlaceholder(element);
+    this._placement = {
+      parent: this._getParentItem(element),
+      before: element,
+      depth: this._originalDepth,
+      into: null,
+    };
+
+    for (const el of this._draggedElements) {
+      el.style.display = 'none';
+    }
+  }
+
+  private _onDragMove(position: Point, delta: Point): void {
+    if (!this._root || !this._placeholder) return;
+
+    const items = this._flatten(this._root, 0);
+    const placement = this._project(items, position, delta);
+
+    this._updateExpandTimer(placement.into);
+
+    if (this._placement && this._isSamePlacement(placement, this._placement)) return;
+
+    this._placement = placement;
+    this._movePlaceholder(placement);
+
+    const container = this._placeholder.parentElement;
+    if (!container) return;
+
+    const previousIndex = this._currentIndex;
+    this._currentIndex = this._indexInContainer(container);
+
+    if (this._draggedElement && this._currentIndex !== previousIndex) {
+      this._snap?.options.onSort?.({
+        element: this._draggedElement,
+        container,
+        index: this._currentIndex,
+        previousIndex,
+      });
+    }
+  }
+
+  private _onDragEnd(cancelled: boolean): void {
+    this._cleanup(cancelled);
+  }
+
+  /**
+   * Work out the drop position from the pointer and horizontal offset
+   */
+  private _project(items: TreeItem[], position: Point, delta: Point): TreePlacement {
+    if (items.length === 0) {
+      return { parent: null, before: null, depth: 0, into: null };
+    }
+
+    // Find the row under the pointer (rows exclude nested children)
+    let insertAt = items.length;
+    for (let i = 0; i < items.length; i++) {
+      const { top, bottom } = this._getRowBounds(items[i].element);
+      if (position.y < top) {
+        insertAt = i;
+        break;
+      }
+      if (position.y > bottom) continue;
+
+      const ratio = (position.y - top) / Math.max(bottom - top, 1);
+      const target = items[i];
+      const canNest = target.depth + 1 + this._subtreeHeight <= this._options.maxDepth;
+
+      // Middle of the row nests the item as the target's last child
+      if (ratio > 0.25 && ratio < 0.75 && canNest) {
+        return {
+          parent: target.element,
+          before: null,
+          depth: target.depth + 1,
+          into: target.element,
+        };
+      }
+
+      insertAt = ratio < 0.5 ? i : i + 1;
+      break;
+    }
+
+    // Depth follows the horizontal offset, within what the neighbours allow
+    const prev = items[insertAt - 1];
+    const next = items[insertAt];
+    const minDepth = next ? next.depth : 0;
+    const maxDepth = Math.max(
+      minDepth,
+      Math.min(prev ? prev.depth + 1 : 0, this._options.maxDepth - this._subtreeHeight)
+    );
+    const projected = this._originalDepth + Math.round(delta.x / this._options.indentation);
+    const depth = Math.min(Math.max(projected, minDepth), maxDepth);
+
+    // Parent is the nearest preceding item one level up
+    let parent: HTMLElement | null = null;
+    for (let i = insertAt - 1; i >= 0 && depth > 0; i--) {
+      if (items[i].depth === depth - 1) {
+        parent = items[i].element;
+        break;
+      }
+    }
+
+    return {
+      parent,
+      before: next && next.depth === depth ? next.element : null,
+      depth,
+      into: null,
+    };
+  }
+
+  private _isSamePlacement(a: TreePlacement, b: TreePlacement): boolean {
+    return (
+      a.parent === b.parent &&
+      a.before === b.before &&
+      a.depth === b.depth &&
+      a.into === b.into
+    );
+  }
+
+  private _movePlaceholder(placement: TreePlacement): void {
+    if (!this._placeholder || !this._root) return;
+
+    const container = placement.parent
+      ? this._getChildrenContainer(placement.parent, true)
+      : this._root;
+    if (!container) return;
+
+    // Animate siblings that shift
+    const positions = this._measureItems(container);
+
+    container.insertBefore(this._placeholder, placement.before);
+
+    this._root
+      .querySelectorAll('.snap-tree-drop-into')
+      .forEach((el) => el.classList.remove('snap-tree-drop-into'));
+    placement.into?.classList.add('snap-tree-drop-into');
+
+    boundsCache.invalidateAll();
+    this._animateItems(positions);
+  }
+
+  private _updateExpandTimer(target: HTMLElement | null): void {
+    const collapsed =
+      target && target.classList.contains(this._options.collapsedClass) ? target : null;
+    if (collapsed === this._expandTarget) return;
+
+    this._clearExpandTimer();
+    this._expandTarget = collapsed;
+    if (!collapsed) return;
+
+    this._expandTimer = window.setTimeout(() => {
+      this._expandTimer = null;
+      collapsed.classList.remove(this._options.collapsedClass);
+      this._options.onExpand(collapsed);
+      boundsCache.invalidateAll();
+    }, this._options.expandDelay);
+  }
+
+  private _clearExpandTimer(): void {
+    if (this._expandTimer !== null) {
+      clearTimeout(this._expandTimer);
+      this._expandTimer = null;
+    }
+    this._expandTarget = null;
+  }
+
+  /**
+   * Visible items in document order, skipping dragged and collapsed subtrees
+   */
+  private _flatten(container: HTMLElement, depth: number, result: TreeItem[] = []): TreeItem[] {
+    for (const element of this._getSiblingItems(container)) {
+      if (this._draggedElements.includes(element)) continue;
+
+      result.push({ element, depth });
+
+      if (element.classList.contains(this._options.collapsedClass)) continue;
+
+      const children = this._getChildrenContainer(element, false);
+      if (children) this._flatten(children, depth + 1, result);
+    }
+    return result;
+  }
+
+  /**
+   * Direct children of a list that are draggable tree items
+   */
+  private _getSiblingItems(container: HTMLElement | null): HTMLElement[] {
+    if (!container) return [];
+
+    const items: HTMLElement[] = [];
+    for (const child of container.children) {
+      if (child instanceof HTMLElement && this._snap?.isDraggable(child)) {
+        items.push(child);
+      }
+    }
+    return items;
+  }
+
+  private _getChildrenContainer(item: HTMLElement, create: boolean): HTMLElement | null {
+    for (const child of item.children) {
+      if (child instanceof HTMLElement && child.matches(this._options.childrenSelector)) {
+        return child;
+      }
+    }
+
+    if (!create || !this._root) return null;
+
+    // Match the root list's element type (ul, ol, div...)
+    const container = document.createElement(this._root.tagName);
+    container.setAttribute('data-tree-children', '');
+    item.appendChild(container);
+    this._createdContainers.push(container);
+    return container;
+  }
+
+  private _getParentItem(element: HTMLElement): HTMLElement | null {
+    let current = element.parentElement;
+    while (current && current !== this._root) {
+      if (this._snap?.isDraggable(current)) return current;
+      current = current.parentElement;
+    }
+    return null;
+  }
+
+  /**
+   * The list holding the outermost item above the element
+   */
+  private _findRoot(element: HTMLElement): HTMLElement | null {
+    let item = element;
+    let parent = this._getParentItem(item);
+    while (parent) {
+      item = parent;
+      parent = this._getParentItem(item);
+    }
+    return item.parentElement;
+  }
+
+  private _getDepth(element: HTMLElement): number {
+    let depth = 0;
+    let parent = this._getParentItem(element);
+    while (parent) {
+      depth++;
+      parent = this._getParentItem(parent);
+    }
+    return depth;
+  }
+
+  /**
+   * Levels of descendants below an item (0 for a leaf)
+   */
+  private _getSubtreeHeight(element: HTMLElement): number {
+    const children = this._getChildrenContainer(element, false);
+    let height = 0;
+    for (const child of this._getSiblingItems(children)) {
+      height = Math.max(height, this._getSubtreeHeight(child) + 1);
+    }
+    return height;
+  }
+
+  /**
+   * Vertical bounds of an item's own row, excluding its nested list
+   */
+  private _getRowBounds(element: HTMLElement): { top: number; bottom: number } {
+    const rect = boundsCache.get(element);
+    const children = this._getChildrenContainer(element, false);
+    if (!children) return { top: rect.top, bottom: rect.bottom };
+
+    const childRect = boundsCache.get(children);
+    if (childRect.height === 0) return { top: rect.top, bottom: rect.bottom };
+
+    return { top: rect.top, bottom: Math.max(rect.top, childRect.top) };
+  }
+
+  private _indexInContainer(container: HTMLElement): number {
+    let index = 0;
+    for (const child of container.children) {
+      if (child === this._placeholder) return index;
+      if (
+        child instanceof HTMLElement &&
+        !this._draggedElements.includes(child) &&
+        this._snap?.isDraggable(child)
+      ) {
+        index++;
+      }
+    }
+    return index;
+  }
+
+  private _createPlaceholder(element: HTMLElement): void {
+    const rect = element.getBoundingClientRect();
+
+    // Same tag keeps list markup valid (li inside ul)
+    this._placeholder = document.createElement(element.tagName);
+    this._placeholder.className = this._options.placeholderClass;
+    this._placeholder.style.cssText = `
+      height: ${this._getRowBounds(element).bottom - rect.top}px;
+      box-sizing: border-box;
+      list-style: none;
+    `;
+
+    element.parentNode?.insertBefore(this._placeholder, element);
+  }
+
+  private _measureItems(container: HTMLElement): Map<HTMLElement, DOMRect> {
+    const positions = new Map<HTMLElement, DOMRect>();
+    if (!this._options.animation || !this._root) return positions;
+
+    // Siblings in the old and new lists may both move
+    const lists = new Set([container, this._placeholder?.parentElement]);
+    for (const list of lists) {
+      for (const item of this._getSiblingItems(list ?? null)) {
+        if (this._draggedElements.includes(item)) continue;
+        positions.set(item, item.getBoundingClientRect());
+      }
+    }
+    return positions;
+  }
+
+  private _animateItems(positions: Map<HTMLElement, DOMRect>): void {
+    for (const [item, oldRect] of positions) {
+      const newRect = item.getBoundingClientRect();
+      const dx = oldRect.left - newRect.left;
+      const dy = oldRect.top - newRect.top;
+
+      if (dx !== 0 || dy !== 0) {
+        item.style.transform = `translate(${dx}px, ${dy}px)`;
+        item.style.transition = 'none';
+
+        requestAnimationFrame(() => {
+          item.style.transition = `transform ${this._options.animation}ms ease`;
+          item.style.transform = '';
+        });
+
+        // Rects measured mid-flight are stale once the item settles
+        item.addEventListener('transitionend', () => boundsCache.invalidate(item), {
+          once: true,
+        });
+      }
+    }
+  }
+
+  private _cleanup(cancelled: boolean): void {
+    this._clearExpandTimer();
+
+    // Move dragged items to the placeholder, keeping group order
+    const placeholder = this._placeholder;
+    if (!cancelled && placeholder?.parentNode) {
+      for (const el of this._draggedElements) {
+        placeholder.parentNode.insertBefore(el, placeholder);
+      }
+    }
+
+    for (const el of this._draggedElements) {
+      el.style.display = '';
+    }
+
+    placeholder?.remove();
+    this._placeholder = null;
+    this._root
+      ?.querySelectorAll('.snap-tree-drop-into')
+      .forEach((el) => el.classList.remove('snap-tree-drop-into'));
+
+    // Drop child lists created for the preview that ended up empty
+    for (const container of this._createdContainers) {
+      if (this._getSiblingItems(container).length === 0) container.remove();
+    }
+
+    this._root = null;
+    this._draggedElement = null;
+    this._draggedElements = [];
+    this._placement = null;
+    this._createdContainers = [];
+    this._originalDepth = 0;
+    this._subtreeHeight = 0;
+    this._currentIndex = -1;
+
+    boundsCache.invalidateAll();
+  }
+
+  /**
+   * Get the current index in the target parent during drag
+   */
+  getCurrentIndex(): number {
+    return this._currentIndex;
+  }
+
+  /**
+   * Get the projected depth during drag
+   */
+  getCurrentDepth(): number {
+    return this._placement?.depth ?? -1;
+  }
+}
@@ -1,3 +1,6 @@
 export { Sortable } from './Sortable.js';
+export { SortableTree } from './SortableTree.js';
 export { Kanban } from './Kanban.js';
 export { FileDrop, createFileDropZone } from './FileDrop.js';
+export { Canvas } from './Canvas.js';
+export { Resizable } from './Resizable.js';
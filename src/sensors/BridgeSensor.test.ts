@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BridgeSensor, BRIDGE_EVENT, type BridgeMessage } from './BridgeSensor.js';
+
+function send(target: Element, message: BridgeMessage): BridgeMessage {
+  target.dispatchEvent(new CustomEvent(BRIDGE_EVENT, { detail: message, bubbles: true }));
+  return message;
+}
+
+function move(id: string, x: number, start: () => unknown): BridgeMessage {
+  return { type: 'move', id, position: { x, y: 10 }, start: start as never };
+}
+
+describe('BridgeSensor', () => {
+  let outer: HTMLElement;
+  let inner: HTMLElement;
+  let target: HTMLElement;
+  let source: HTMLElement;
+  let start: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="outer"><div id="inner"><p id="target"></p></div></div>';
+    outer = document.getElementById('outer')!;
+    inner = document.getElementById('inner')!;
+    target = document.getElementById('target')!;
+    source = document.createElement('div');
+    source.textContent = 'Card';
+    start = vi.fn(() => ({
+      element: source,
+      data: { id: 7 },
+      offset: { x: 5, y: 5 },
+      size: { width: 50, height: 20 },
+    }));
+  });
+
+  it('asks for the payload once, then only follows positions', () => {
+    const sensor = new BridgeSensor({ container: inner });
+    const enter = vi.fn();
+    const moved = vi.fn();
+    sensor.on('enter', enter);
+    sensor.on('move', moved);
+    sensor.attach();
+
+    const first = send(target, move('a', 20, start));
+    send(target, move('a', 30, start));
+    send(target, move('a', 40, start));
+
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(first.receiver).toBe(inner);
+    expect(enter.mock.calls[0][0].data).toEqual({ id: 7 });
+    expect(enter.mock.calls[0][0].rect).toEqual({ left: 15, top: 5, width: 50, height: 20 });
+    expect(moved.mock.calls.map(([e]) => e.position.x)).toEqual([30, 40]);
+  });
+
+  it('goes to the innermost container, and to an outer one if the inner one declines', () => {
+    const innerSensor = new BridgeSensor({ container: inner });
+    const outerSensor = new BridgeSensor({ container: outer });
+    const outerEnter = vi.fn();
+    outerSensor.on('enter', outerEnter);
+    innerSensor.attach();
+    outerSensor.attach();
+
+    expect(send(target, move('a', 20, start)).receiver).toBe(inner);
+    expect(outerEnter).not.toHaveBeenCalled();
+
+    // A local drag is running in the inner instance
+    innerSensor.on('enter', () => innerSensor.reset());
+    expect(send(target, move('b', 20, start)).receiver).toBe(outer);
+    expect(outerEnter).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the drag on drop or leave for the active session only', () => {
+    const sensor = new BridgeSensor({ container: inner });
+    const drop = vi.fn();
+    const leave = vi.fn();
+    sensor.on('drop', drop);
+    sensor.on('leave', leave);
+    sensor.attach();
+
+    send(target, move('a', 20, start));
+    send(inner, { type: 'drop', id: 'other', position: { x: 0, y: 0 } });
+    expect(drop).not.toHaveBeenCalled();
+
+    send(inner, { type: 'leave', id: 'a' });
+    expect(leave).toHaveBeenCalledWith({ position: { x: 20, y: 10 } });
+    expect(sensor.isActive).toBe(false);
+  });
+});
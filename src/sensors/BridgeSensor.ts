@@ -0,0 +1,175 @@
+/**
+ * Bridge sensor - receives drags carried over from another same-origin
+ * document (parent page, iframe or popup) by its DragBridge
+ */
+import type { Point, Sensor } from '../types/index.js';
+import { EventEmitter } from '../utils/EventEmitter.js';
+
+/**
+ * Name of the CustomEvent a DragBridge dispatches in the destination
+ * document, on the element under the pointer. It bubbles to the innermost
+ * bridge-enabled container, whose Snap instance takes the drag.
+ */
+export const BRIDGE_EVENT = 'snap-bridge';
+
+/**
+ * What a container needs to pick up a bridged drag
+ */
+export interface BridgePayload {
+  /** Dragged element in the source document */
+  element: HTMLElement;
+  /** JSON-safe copy of the drag's data */
+  data: Record<string, unknown>;
+  /** Pointer offset from the ghost's top-left corner */
+  offset: Point;
+  size: { width: number; height: number };
+}
+
+export type BridgeMessage =
+  | {
+      type: 'move';
+      /** Source drag session id */
+      id: string;
+      /** Pointer in the destination viewport */
+      position: Point;
+      /** Called only by a container picking up the drag */
+      start: () => BridgePayload;
+      /** Set by the Snap instance that takes the move, to its container */
+      receiver?: Element;
+    }
+  | { type: 'drop'; id: string; position: Point }
+  | { type: 'leave'; id: string };
+
+export type BridgeSensorEvents = {
+  enter: BridgeEnterEvent;
+  move: { position: Point };
+  drop: { position: Point };
+  leave: { position: Point };
+};
+
+export interface BridgeEnterEvent {
+  /** Copy of the dragged element imported into this document */
+  element: HTMLElement;
+  /** The dragged element in the source document, for rendering the ghost */
+  source: HTMLElement;
+  position: Point;
+  data: Record<string, unknown>;
+  /** Where the ghost starts, in this viewport */
+  rect: { left: number; top: number; width: number; height: number };
+}
+
+export interface BridgeSensorOptions {
+  container: HTMLElement | ShadowRoot;
+}
+
+export class BridgeSensor
+  extends EventEmitter<BridgeSensorEvents>
+  implements Sensor
+{
+  private _target: Element;
+  private _attached = false;
+
+  // Bridged drag in progress
+  private _activeId: string | null = null;
+  private _lastPosition: Point = { x: 0, y: 0 };
+
+  constructor(options: BridgeSensorOptions) {
+    super();
+    // For ShadowRoot, listen on the host element
+    this._target = options.container instanceof ShadowRoot
+      ? options.container.host
+      : options.container;
+  }
+
+  /**
+   * Attach event listeners
+   */
+  attach(): void {
+    if (this._attached) return;
+    this._target.addEventListener(BRIDGE_EVENT, this._onMessage);
+    this._attached = true;
+  }
+
+  /**
+   * Detach event listeners
+   */
+  detach(): void {
+    if (!this._attached) return;
+    this._target.removeEventListener(BRIDGE_EVENT, this._onMessage);
+    this._activeId = null;
+    this._attached = false;
+  }
+
+  /**
+   * Check if a bridged drag is in progress
+   */
+  get isActive(): boolean {
+    return this._activeId !== null;
+  }
+
+  /**
+   * Stop tracking the current bridged drag (e.g. a local drag took over)
+   */
+  reset(): void {
+    this._activeId = null;
+  }
+
+  private _onMessage = (e: Event): void => {
+    const message = (e as CustomEvent<BridgeMessage>).detail;
+    if (!message) return;
+
+    if (message.type === 'move') {
+      this._lastPosition = message.position;
+
+      if (this._activeId !== message.id) {
+        const start = message.start();
+        this._activeId = message.id;
+        this.emit('enter', {
+          element: this._import(start.element),
+          source: start.element,
+          position: message.position,
+          data: start.data,
+          rect: {
+            left: message.position.x - start.offset.x,
+            top: message.position.y - start.offset.y,
+            width: start.size.width,
+            height: start.size.height,
+          },
+        });
+
+        // Left for an outer container if this instance didn't start the drag
+        if (this._activeId !== message.id) return;
+      } else {
+        this.emit('move', { position: message.position });
+      }
+
+      // Tell the source which instance has the drag; outer containers
+      // don't get the event
+      message.receiver = this._target;
+      e.stopPropagation();
+      return;
+    }
+
+    if (message.id !== this._activeId) return;
+    this._activeId = null;
+    e.stopPropagation();
+
+    if (message.type === 'drop') {
+      this.emit('drop', { position: message.position });
+    } else {
+      this.emit('leave', { position: this._lastPosition });
+    }
+  };
+
+  private _import(element: HTMLElement): HTMLElement {
+    return this._target.ownerDocument.importNode(element, true) as HTMLElement;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.detach();
+    super.destroy();
+  }
+}
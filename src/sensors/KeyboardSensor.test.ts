@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { KeyboardSensor, type KeyboardSensorOptions } from './KeyboardSensor.js';
+
+function place(element: HTMLElement, x: number, y: number, width = 100, height = 40): void {
+  element.getBoundingClientRect = () => new DOMRect(x, y, width, height);
+}
+
+function press(target: EventTarget, key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+}
+
+describe('KeyboardSensor', () => {
+  let container: HTMLElement;
+  let items: HTMLElement[];
+  let zone: HTMLElement;
+  let sensor: KeyboardSensor;
+  let start: ReturnType<typeof vi.fn>;
+  let move: ReturnType<typeof vi.fn>;
+  let drop: ReturnType<typeof vi.fn>;
+  let cancel: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div data-draggable tabindex="0">A <button>Edit</button></div>
+        <div data-draggable tabindex="0">B</div>
+        <div data-draggable tabindex="0">C</div>
+        <div id="zone" data-droppable></div>
+      </div>`;
+    container = document.getElementById('container')!;
+    items = Array.from(container.querySelectorAll<HTMLElement>('[data-draggable]'));
+    zone = document.getElementById('zone')!;
+    // A column of items with a zone to the right
+    items.forEach((item, i) => place(item, 0, i * 50));
+    place(zone, 300, 0, 200, 200);
+  });
+
+  afterEach(() => {
+    sensor.destroy();
+  });
+
+  function create(options: Partial<KeyboardSensorOptions> = {}): KeyboardSensor {
+    sensor = new KeyboardSensor({
+      container,
+      draggableSelector: '[data-draggable]',
+      getTargets: () => [...items, zone],
+      ...options,
+    });
+    start = vi.fn();
+    move = vi.fn();
+    drop = vi.fn();
+    cancel = vi.fn();
+    sensor.on('dragstart', start);
+    sensor.on('dragmove', move);
+    sensor.on('drop', drop);
+    sensor.on('cancel', cancel);
+    sensor.attach();
+    return sensor;
+  }
+
+  it('picks up the focused draggable at its center', () => {
+    create();
+
+    const event = press(items[0], ' ');
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(start.mock.calls[0][0].element).toBe(items[0]);
+    expect(start.mock.calls[0][0].position).toEqual({ x: 50, y: 20 });
+    expect(sensor.isActive).toBe(true);
+  });
+
+  it('leaves keys on controls inside the item alone', () => {
+    create();
+
+    const event = press(items[0].querySelector('button')!, 'Enter');
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it('skips disabled items and held-down keys', () => {
+    create({ getItemOptions: (el) => (el === items[1] ? { disabled: true } : undefined) });
+
+    press(items[1], 'Enter');
+    press(items[0], 'Enter', { repeat: true });
+
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it('moves to the nearest target in the arrow direction', () => {
+    create();
+    press(items[0], 'Enter');
+
+    press(document, 'ArrowDown');
+    expect(move.mock.calls[0][0].target).toBe(items[1]);
+    // Just past the target's center
+    expect(move.mock.calls[0][0].position).toEqual({ x: 50, y: 71 });
+
+    press(document, 'ArrowRight');
+    expect(move.mock.calls[1][0].target).toBe(zone);
+
+    // Nothing further right
+    press(document, 'ArrowRight');
+    expect(move).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops at the current position and returns focus to the item', () => {
+    create();
+    press(items[0], 'Enter');
+    press(document, 'ArrowDown');
+
+    press(document, 'Enter');
+
+    expect(drop).toHaveBeenCalledTimes(1);
+    expect(drop.mock.calls[0][0].position).toEqual({ x: 50, y: 71 });
+    expect(document.activeElement).toBe(items[0]);
+    expect(sensor.isActive).toBe(false);
+  });
+
+  it('cancels on Escape and on Tab', () => {
+    create();
+
+    press(items[0], 'Enter');
+    press(document, 'Escape');
+    press(items[0], 'Enter');
+    const tab = press(document, 'Tab');
+
+    expect(cancel).toHaveBeenCalledTimes(2);
+    expect(tab.defaultPrevented).toBe(true);
+    expect(drop).not.toHaveBeenCalled();
+  });
+
+  it('uses the configured keys', () => {
+    create({ pickUpKeys: ['p'], dropKeys: ['d'], cancelKeys: ['c'] });
+
+    press(items[0], 'Enter');
+    expect(start).not.toHaveBeenCalled();
+
+    press(items[0], 'p');
+    press(document, 'Enter');
+    expect(drop).not.toHaveBeenCalled();
+
+    press(document, 'd');
+    expect(drop).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels programmatically and stops listening after detach', () => {
+    create();
+    press(items[0], 'Enter');
+
+    sensor.cancel();
+    expect(cancel.mock.calls[0][0].originalEvent).toBeNull();
+
+    sensor.detach();
+    press(items[0], 'Enter');
+    expect(start).toHaveBeenCalledTimes(1);
+  });
+});
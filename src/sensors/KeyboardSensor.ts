@@ -0,0 +1,260 @@
+/**
+ * Keyboard sensor for accessible drag and drop
+ * Picks up the focused draggable, moves it between items and drop zones
+ * with the arrow keys, and drops or cancels it
+ */
+import type { Point, Sensor, KeyboardOptions, ItemOptions } from '../types/index.js';
+import { EventEmitter } from '../utils/EventEmitter.js';
+import { rectCenter } from '../utils/BoundsCache.js';
+
+export type KeyboardSensorEvents = {
+  dragstart: KeyboardStartEvent;
+  dragmove: KeyboardMoveEvent;
+  drop: KeyboardEndEvent;
+  cancel: KeyboardEndEvent;
+};
+
+export interface KeyboardStartEvent {
+  element: HTMLElement;
+  position: Point;
+  originalEvent: KeyboardEvent;
+}
+
+export interface KeyboardMoveEvent {
+  position: Point;
+  target: HTMLElement;
+  originalEvent: KeyboardEvent;
+}
+
+export interface KeyboardEndEvent {
+  position: Point;
+  originalEvent: KeyboardEvent | null;
+}
+
+export interface KeyboardSensorOptions extends KeyboardOptions {
+  container: HTMLElement | ShadowRoot;
+  draggableSelector: string;
+  /** Elements the dragged item can be moved onto (items and drop zones) */
+  getTargets: () => HTMLElement[];
+  /** Lookup for imperatively registered draggables and their options */
+  getItemOptions?: (element: HTMLElement) => ItemOptions | undefined;
+}
+
+// Unit vectors for arrow keys
+const directions: Record<string, Point> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+};
+
+const defaultKeys: Required<KeyboardOptions> = {
+  pickUpKeys: [' ', 'Enter'],
+  dropKeys: [' ', 'Enter'],
+  cancelKeys: ['Escape'],
+};
+
+export class KeyboardSensor
+  extends EventEmitter<KeyboardSensorEvents>
+  implements Sensor
+{
+  private _container: HTMLElement | ShadowRoot;
+  private _options: KeyboardSensorOptions;
+  private _keys: Required<KeyboardOptions>;
+  private _attached = false;
+
+  // Active drag state
+  private _activeElement: HTMLElement | null = null;
+  private _position: Point = { x: 0, y: 0 };
+
+  constructor(options: KeyboardSensorOptions) {
+    super();
+    this._container = options.container;
+    this._options = options;
+    this._keys = {
+      pickUpKeys: options.pickUpKeys ?? defaultKeys.pickUpKeys,
+      dropKeys: options.dropKeys ?? defaultKeys.dropKeys,
+      cancelKeys: options.cancelKeys ?? defaultKeys.cancelKeys,
+    };
+  }
+
+  /**
+   * Attach event listeners
+   */
+  attach(): void {
+    if (this._attached) return;
+
+    this._getEventTarget().addEventListener('keydown', this._onKeyDown);
+    this._attached = true;
+  }
+
+  /**
+   * Detach event listeners
+   */
+  detach(): void {
+    if (!this._attached) return;
+
+    this._getEventTarget().removeEventListener('keydown', this._onKeyDown);
+    this.reset();
+    this._attached = false;
+  }
+
+  /**
+   * Check if currently dragging with the keyboard
+   */
+  get isActive(): boolean {
+    return this._activeElement !== null;
+  }
+
+  /**
+   * Cancel the active keyboard drag, emitting a cancel event
+   */
+  cancel(): void {
+    if (!this._activeElement) return;
+
+    this.emit('cancel', {
+      position: { x: this._position.x, y: this._position.y },
+      originalEvent: null,
+    });
+    this.reset();
+  }
+
+  /**
+   * Stop tracking the active drag without emitting events
+   */
+  reset(): void {
+    document.removeEventListener('keydown', this._onDragKeyDown, true);
+    this._activeElement = null;
+  }
+
+  private _getEventTarget(): HTMLElement {
+    // For ShadowRoot, attach to the host element
+    if (this._container instanceof ShadowRoot) {
+      return this._container.host as HTMLElement;
+    }
+    return this._container;
+  }
+
+  private _onKeyDown = (e: KeyboardEvent): void => {
+    if (this._activeElement || e.repeat) return;
+    if (!this._keys.pickUpKeys.includes(e.key)) return;
+
+    // Only pick up the draggable itself, not inputs or buttons inside it
+    const target = e.composedPath()[0];
+    if (!(target instanceof HTMLElement)) return;
+
+    const itemOptions = this._options.getItemOptions?.(target);
+    if (!itemOptions && !target.matches(this._options.draggableSelector)) return;
+    if (itemOptions?.disabled) return;
+
+    e.preventDefault();
+
+    this._activeElement = target;
+    const center = rectCenter(target.getBoundingClientRect());
+    this._position = { x: center.x, y: center.y };
+
+    // Listen on the document: the dragged element may be hidden
+    // (and lose focus) while a plugin shows a placeholder
+    document.addEventListener('keydown', this._onDragKeyDown, true);
+
+    this.emit('dragstart', {
+      element: target,
+      position: { x: center.x, y: center.y },
+      originalEvent: e,
+    });
+  };
+
+  private _onDragKeyDown = (e: KeyboardEvent): void => {
+    const element = this._activeElement;
+    if (!element) return;
+
+    const direction = directions[e.key];
+    if (direction) {
+      e.preventDefault();
+      e.stopPropagation();
+      this._move(direction, e);
+      return;
+    }
+
+    if (e.repeat) return;
+
+    const dropping = this._keys.dropKeys.includes(e.key);
+    const cancelling = this._keys.cancelKeys.includes(e.key);
+    if (!dropping && !cancelling && e.key !== 'Tab') return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    this.emit(dropping ? 'drop' : 'cancel', {
+      position: { x: this._position.x, y: this._position.y },
+      originalEvent: e,
+    });
+    this.reset();
+
+    // Return focus to the item (it may have been moved in the DOM)
+    element.focus({ preventScroll: true });
+  };
+
+  private _move(direction: Point, e: KeyboardEvent): void {
+    const active = this._activeElement;
+    if (!active) return;
+
+    const { x, y } = this._position;
+    let best: HTMLElement | null = null;
+    let bestCenter: Point | null = null;
+    let bestScore = Infinity;
+
+    for (const target of this._options.getTargets()) {
+      if (target === active || active.contains(target)) continue;
+
+      const rect = target.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) continue;
+
+      // Skip containers we are already inside of
+      if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) {
+        continue;
+      }
+
+      const center = rectCenter(rect);
+      const dx = center.x - x;
+      const dy = center.y - y;
+
+      // Distance along the arrow direction must be positive
+      const along = dx * direction.x + dy * direction.y;
+      if (along <= 1) continue;
+
+      // Penalize sideways drift so the closest item in line wins
+      const across = Math.abs(dx * direction.y) + Math.abs(dy * direction.x);
+      const score = along + across * 2;
+
+      if (score < bestScore) {
+        bestScore = score;
+        best = target;
+        bestCenter = center;
+      }
+    }
+
+    if (!best || !bestCenter) return;
+
+    // Land just past the target's center in the direction of travel, so
+    // center-based insertion places the item before or after the target
+    this._position = {
+      x: bestCenter.x + direction.x,
+      y: bestCenter.y + direction.y,
+    };
+
+    this.emit('dragmove', {
+      position: { x: this._position.x, y: this._position.y },
+      target: best,
+      originalEvent: e,
+    });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.detach();
+    super.destroy();
+  }
+}
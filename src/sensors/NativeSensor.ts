@@ -0,0 +1,208 @@
+/**
+ * Native drag sensor - HTML5 drag and drop in both directions:
+ * drags from other apps or tabs coming in, and native drags started
+ * from export handles going out
+ * Files are left to FileSensor
+ */
+import type { Point, Sensor } from '../types/index.js';
+import { EventEmitter } from '../utils/EventEmitter.js';
+
+export type NativeSensorEvents = {
+  dragover: NativeOverEvent;
+  dragleave: { position: Point };
+  drop: NativeDropEvent;
+  dragstart: NativeStartEvent;
+};
+
+export interface NativeOverEvent {
+  position: Point;
+  /** Accepted MIME types on offer (values are only readable on drop) */
+  types: string[];
+  /** Call to allow a drop here */
+  accept(): void;
+  originalEvent: DragEvent;
+}
+
+export interface NativeDropEvent {
+  position: Point;
+  /** Accepted MIME types and their values */
+  data: Record<string, string>;
+  originalEvent: DragEvent;
+}
+
+export interface NativeStartEvent {
+  /** The export handle the native drag started from */
+  handle: HTMLElement;
+  dataTransfer: globalThis.DataTransfer;
+  originalEvent: DragEvent;
+}
+
+export interface NativeSensorOptions {
+  container: HTMLElement | ShadowRoot;
+  /** MIME types accepted from incoming drags */
+  accept: string[];
+  /** Selector for handles that start outgoing native drags */
+  exportHandle: string;
+}
+
+export class NativeSensor
+  extends EventEmitter<NativeSensorEvents>
+  implements Sensor
+{
+  private _container: HTMLElement | ShadowRoot;
+  private _options: NativeSensorOptions;
+  private _attached = false;
+  private _dragCount = 0;
+
+  // Outgoing drags from our own handles aren't treated as incoming
+  private _exporting = false;
+
+  constructor(options: NativeSensorOptions) {
+    super();
+    this._container = options.container;
+    this._options = options;
+  }
+
+  attach(): void {
+    if (this._attached) return;
+
+    const target = this._getEventTarget();
+    target.addEventListener('dragstart', this._onDragStart);
+    target.addEventListener('dragend', this._onDragEnd);
+    target.addEventListener('dragenter', this._onDragOver, { passive: false });
+    target.addEventListener('dragover', this._onDragOver, { passive: false });
+    target.addEventListener('dragleave', this._onDragLeave);
+    target.addEventListener('drop', this._onDrop, { passive: false });
+
+    this._attached = true;
+  }
+
+  detach(): void {
+    if (!this._attached) return;
+
+    const target = this._getEventTarget();
+    target.removeEventListener('dragstart', this._onDragStart);
+    target.removeEventListener('dragend', this._onDragEnd);
+    target.removeEventListener('dragenter', this._onDragOver);
+    target.removeEventListener('dragover', this._onDragOver);
+    target.removeEventListener('dragleave', this._onDragLeave);
+    target.removeEventListener('drop', this._onDrop);
+
+    this._dragCount = 0;
+    this._exporting = false;
+    this._attached = false;
+  }
+
+  private _getEventTarget(): HTMLElement {
+    if (this._container instanceof ShadowRoot) {
+      return this._container.host as HTMLElement;
+    }
+    return this._container;
+  }
+
+  private _onDragStart = (e: DragEvent): void => {
+    const handle = this._findHandle(e);
+    if (!handle || !e.dataTransfer) return;
+
+    this._exporting = true;
+    this.emit('dragstart', {
+      handle,
+      dataTransfer: e.dataTransfer,
+      originalEvent: e,
+    });
+  };
+
+  private _onDragEnd = (): void => {
+    this._exporting = false;
+  };
+
+  private _onDragOver = (e: DragEvent): void => {
+    const types = this._getTypes(e);
+    if (types.length === 0) return;
+
+    if (e.type === 'dragenter') {
+      this._dragCount++;
+    }
+
+    let accepted = false;
+    this.emit('dragover', {
+      position: { x: e.clientX, y: e.clientY },
+      types,
+      accept: () => {
+        accepted = true;
+      },
+      originalEvent: e,
+    });
+
+    // Must prevent default to allow drop
+    if (accepted) {
+      e.preventDefault();
+      if (e.dataTransfer) {
+        e.dataTransfer.dropEffect = 'copy';
+      }
+    }
+  };
+
+  private _onDragLeave = (e: DragEvent): void => {
+    if (this._getTypes(e).length === 0) return;
+
+    this._dragCount--;
+
+    // Only emit leave when truly leaving the container
+    if (this._dragCount <= 0) {
+      this._dragCount = 0;
+      this.emit('dragleave', { position: { x: e.clientX, y: e.clientY } });
+    }
+  };
+
+  private _onDrop = (e: DragEvent): void => {
+    const types = this._getTypes(e);
+    if (types.length === 0) return;
+
+    e.preventDefault();
+    this._dragCount = 0;
+
+    const data: Record<string, string> = {};
+    for (const type of types) {
+      data[type] = e.dataTransfer?.getData(type) ?? '';
+    }
+
+    this.emit('drop', {
+      position: { x: e.clientX, y: e.clientY },
+      data,
+      originalEvent: e,
+    });
+  };
+
+  /**
+   * Accepted MIME types of an incoming non-file drag
+   */
+  private _getTypes(e: DragEvent): string[] {
+    if (this._exporting || !e.dataTransfer) return [];
+
+    const types = Array.from(e.dataTransfer.types);
+    if (types.includes('Files')) return [];
+
+    return types.filter((type) => this._options.accept.includes(type));
+  }
+
+  private _findHandle(e: DragEvent): HTMLElement | null {
+    for (const el of e.composedPath()) {
+      if (!(el instanceof HTMLElement)) continue;
+
+      if (el.matches(this._options.exportHandle)) {
+        return el;
+      }
+
+      if (el === this._container || el === (this._container as ShadowRoot).host) {
+        break;
+      }
+    }
+    return null;
+  }
+
+  destroy(): void {
+    this.detach();
+    super.destroy();
+  }
+}
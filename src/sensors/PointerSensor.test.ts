@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PointerSensor, type PointerSensorOptions } from './PointerSensor.js';
+
+function pointer(
+  type: string,
+  target: EventTarget,
+  x: number,
+  y: number,
+  pointerType = 'mouse',
+  pointerId = 1
+): void {
+  target.dispatchEvent(
+    new PointerEvent(type, {
+      bubbles: true,
+      cancelable: true,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      pointerId,
+      isPrimary: pointerId === 1,
+      pointerType,
+    })
+  );
+}
+
+describe('PointerSensor', () => {
+  let container: HTMLElement;
+  let item: HTMLElement;
+  let sensor: PointerSensor;
+  let down: ReturnType<typeof vi.fn>;
+  let move: ReturnType<typeof vi.fn>;
+  let up: ReturnType<typeof vi.fn>;
+  let cancel: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="item" data-draggable><span class="handle"></span><span class="body"></span></div>
+      </div>`;
+    container = document.getElementById('container')!;
+    item = document.getElementById('item')!;
+    HTMLElement.prototype.setPointerCapture ??= () => {};
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    sensor.detach();
+    vi.useRealTimers();
+  });
+
+  function create(options: Partial<PointerSensorOptions> = {}): PointerSensor {
+    sensor = new PointerSensor({
+      container,
+      draggableSelector: '[data-draggable]',
+      throttle: false,
+      ...options,
+    });
+    down = vi.fn();
+    move = vi.fn();
+    up = vi.fn();
+    cancel = vi.fn();
+    sensor.on('pointerdown', down);
+    sensor.on('pointermove', move);
+    sensor.on('pointerup', up);
+    sensor.on('pointercancel', cancel);
+    sensor.attach();
+    return sensor;
+  }
+
+  describe('activation', () => {
+    it('starts right away without delay or distance', () => {
+      create();
+
+      pointer('pointerdown', item, 10, 10);
+
+      expect(down).toHaveBeenCalledTimes(1);
+      expect(down.mock.calls[0][0].element).toBe(item);
+      expect(sensor.isDragging).toBe(true);
+    });
+
+    it('waits for the pointer to move the distance', () => {
+      create({ distance: 10 });
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 15, 10);
+      expect(down).not.toHaveBeenCalled();
+
+      pointer('pointermove', container, 20, 10);
+      expect(down).toHaveBeenCalledTimes(1);
+      expect(move.mock.calls[0][0].delta).toEqual({ x: 10, y: 0 });
+    });
+
+    it('waits for the delay', () => {
+      create({ delay: 200 });
+
+      pointer('pointerdown', item, 10, 10);
+      vi.advanceTimersByTime(199);
+      expect(down).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(down).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses the settings for the pointer type', () => {
+      create({ activation: { touch: { delay: 250 } } });
+
+      pointer('pointerdown', item, 10, 10, 'mouse');
+      expect(down).toHaveBeenCalledTimes(1);
+      pointer('pointerup', container, 10, 10, 'mouse');
+
+      pointer('pointerdown', item, 10, 10, 'touch');
+      expect(down).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(250);
+      expect(down).toHaveBeenCalledTimes(2);
+    });
+
+    it('vibrates when a touch drag starts', () => {
+      const vibrate = vi.fn();
+      vi.stubGlobal('navigator', { ...navigator, vibrate });
+      create({ activation: { touch: { delay: 100, vibrate: 20 } } });
+
+      pointer('pointerdown', item, 10, 10, 'touch');
+      vi.advanceTimersByTime(100);
+
+      expect(vibrate).toHaveBeenCalledWith(20);
+      vi.unstubAllGlobals();
+    });
+
+    it('ignores presses outside the handle', () => {
+      create({ handleSelector: '.handle' });
+
+      pointer('pointerdown', item.querySelector('.body')!, 10, 10);
+      expect(down).not.toHaveBeenCalled();
+
+      pointer('pointerdown', item.querySelector('.handle')!, 10, 10);
+      expect(down).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('tolerance', () => {
+    it('keeps a long-press through small movements', () => {
+      create({ activation: { touch: { delay: 250, tolerance: 8 } } });
+
+      pointer('pointerdown', item, 10, 10, 'touch');
+      pointer('pointermove', container, 15, 14, 'touch');
+      vi.advanceTimersByTime(250);
+
+      expect(down).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives the gesture back when the finger moves too far', () => {
+      create({ activation: { touch: { delay: 250, tolerance: 8 } } });
+
+      pointer('pointerdown', item, 10, 10, 'touch');
+      pointer('pointermove', container, 10, 30, 'touch');
+      vi.advanceTimersByTime(250);
+
+      expect(down).not.toHaveBeenCalled();
+      expect(sensor.isActive).toBe(false);
+    });
+
+    it('ends a pending press when the browser takes over for scrolling', () => {
+      create({ activation: { touch: { delay: 250, tolerance: 8 } } });
+
+      pointer('pointerdown', item, 10, 10, 'touch');
+      pointer('pointercancel', container, 10, 12, 'touch');
+      vi.advanceTimersByTime(250);
+
+      expect(down).not.toHaveBeenCalled();
+      expect(cancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('touch scrolling', () => {
+    function touchmove(): Event {
+      const event = new Event('touchmove', { cancelable: true });
+      document.dispatchEvent(event);
+      return event;
+    }
+
+    it('blocks touchmove only once the drag has started', () => {
+      create({ activation: { touch: { delay: 250 } } });
+
+      pointer('pointerdown', item, 10, 10, 'touch');
+      expect(touchmove().defaultPrevented).toBe(false);
+
+      vi.advanceTimersByTime(250);
+      expect(touchmove().defaultPrevented).toBe(true);
+
+      pointer('pointerup', container, 10, 10, 'touch');
+      expect(touchmove().defaultPrevented).toBe(false);
+    });
+  });
+
+  describe('cancel keys', () => {
+    it('cancels a running drag on Escape', () => {
+      create();
+
+      pointer('pointerdown', item, 10, 10);
+      pointer('pointermove', container, 40, 50);
+      const key = new KeyboardEvent('keydown', { key: 'Escape', cancelable: true, bubbles: true });
+      document.dispatchEvent(key);
+
+      expect(cancel).toHaveBeenCalledTimes(1);
+      expect(cancel.mock.calls[0][0].position).toEqual({ x: 40, y: 50 });
+      expect(key.defaultPrevented).toBe(true);
+      expect(sensor.isActive).toBe(false);
+
+      // The release that follows is not a drop
+      pointer('pointerup', container, 40, 50);
+      expect(up).not.toHaveBeenCalled();
+    });
+
+    it('drops a pending press without emitting a cancel', () => {
+      create({ distance: 10 });
+
+      pointer('pointerdown', item, 10, 10);
+      const key = new KeyboardEvent('keydown', { key: 'Escape', cancelable: true, bubbles: true });
+      document.dispatchEvent(key);
+
+      expect(cancel).not.toHaveBeenCalled();
+      expect(key.defaultPrevented).toBe(false);
+      expect(sensor.isActive).toBe(false);
+    });
+
+    it('uses the configured keys', () => {
+      create({ cancelKeys: ['q'] });
+
+      pointer('pointerdown', item, 10, 10);
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+      expect(cancel).not.toHaveBeenCalled();
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'q', bubbles: true }));
+      expect(cancel).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('drops on pointerup', () => {
+    create();
+
+    pointer('pointerdown', item, 10, 10);
+    pointer('pointermove', container, 30, 30);
+    pointer('pointerup', container, 30, 30);
+
+    expect(up).toHaveBeenCalledTimes(1);
+    expect(up.mock.calls[0][0].position).toEqual({ x: 30, y: 30 });
+    expect(sensor.isActive).toBe(false);
+  });
+});
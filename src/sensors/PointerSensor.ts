@@ -2,7 +2,13 @@
  * Unified pointer event sensor
  * Handles mouse, touch, and pointer events through event delegation
  */
-import type { Point, Sensor } from '../types/index.js';
+import type {
+  Point,
+  Sensor,
+  ItemOptions,
+  ActivationOptions,
+  PointerActivation,
+} from '../types/index.js';
 import { EventEmitter } from '../utils/EventEmitter.js';
 import { RAFThrottle } from '../utils/RAFThrottle.js';
 import { acquirePoint, pointPool } from '../utils/ObjectPool.js';
@@ -31,7 +37,8 @@ export interface PointerMoveEvent {
 export interface PointerEndEvent {
   position: Point;
   pointerId: number;
-  originalEvent: PointerEvent;
+  /** KeyboardEvent when the drag was cancelled with a cancel key */
+  originalEvent: PointerEvent | KeyboardEvent;
 }
 
 export interface PointerSensorOptions {
@@ -40,8 +47,35 @@ export interface PointerSensorOptions {
   handleSelector?: string;
   delay?: number;
   distance?: number;
+  /** Per pointer type overrides for delay and distance, plus tolerance and vibrate */
+  activation?: PointerActivation;
   /** Disable RAF throttling for snappier feel (default: true) */
   throttle?: boolean;
+  /** Keys that cancel an active pointer drag (default: Escape) */
+  cancelKeys?: string[];
+  /** Lookup for imperatively registered draggables and their options */
+  getItemOptions?: (element: HTMLElement) => ItemOptions | undefined;
+  /** Claim matching pointerdowns in the capture phase so sensors on the same container never see them */
+  capture?: boolean;
+  /** Pointerdowns inside matching elements are left to the browser (e.g. native drag handles) */
+  ignoreSelector?: string;
+  /** Track several pointers at once, each dragging its own item (default: false) */
+  multiple?: boolean;
+}
+
+// A pointer being tracked, from pointerdown until up or cancel
+interface TrackedPointer {
+  id: number;
+  element: HTMLElement;
+  start: Point;
+  last: Point;
+  isDragging: boolean;
+  delayTimer: number | null;
+  /** Activation settings for the pointer's type */
+  activation: Required<ActivationOptions>;
+  isTouch: boolean;
+  /** RAF throttle for move events */
+  throttle: RAFThrottle<PointerEvent>;
 }
 
 export class PointerSensor
@@ -52,22 +86,24 @@ export class PointerSensor
   private _options: PointerSensorOptions;
   private _attached = false;
 
-  // Active drag state
-  private _activePointerId: number | null = null;
-  private _activeElement: HTMLElement | null = null;
-  private _startPosition: Point | null = null;
-  private _isDragging = false;
-  private _delayTimer: number | null = null;
-
-  // RAF throttle for move events
-  private _moveThrottle: RAFThrottle<PointerEvent>;
+  // Tracked pointers by pointerId, at most one unless multiple is set
+  private _pointers = new Map<number, TrackedPointer>();
 
   constructor(options: PointerSensorOptions) {
     super();
     this._container = options.container;
     this._options = options;
+  }
+
+  /**
+   * Track several pointers at once; pointers already tracked are kept
+   */
+  get multiple(): boolean {
+    return this._options.multiple ?? false;
+  }
 
-    this._moveThrottle = new RAFThrottle((e) => this._processMove(e));
+  set multiple(multiple: boolean) {
+    this._options.multiple = multiple;
   }
 
   /**
@@ -79,6 +115,7 @@ export class PointerSensor
     const target = this._getEventTarget();
     target.addEventListener('pointerdown', this._onPointerDown, {
       passive: false,
+      capture: this._options.capture ?? false,
     });
 
     this._attached = true;
@@ -91,7 +128,9 @@ export class PointerSensor
     if (!this._attached) return;
 
     const target = this._getEventTarget();
-    target.removeEventListener('pointerdown', this._onPointerDown);
+    target.removeEventListener('pointerdown', this._onPointerDown, {
+      capture: this._options.capture ?? false,
+    });
 
     this._cleanup();
     this._attached = false;
@@ -101,14 +140,17 @@ export class PointerSensor
    * Check if currently tracking a drag
    */
   get isActive(): boolean {
-    return this._activePointerId !== null;
+    return this._pointers.size > 0;
   }
 
   /**
    * Check if drag has started (past delay/distance threshold)
    */
   get isDragging(): boolean {
-    return this._isDragging;
+    for (const pointer of this._pointers.values()) {
+      if (pointer.isDragging) return true;
+    }
+    return false;
   }
 
   private _getEventTarget(): HTMLElement | Document {
@@ -120,94 +162,141 @@ export class PointerSensor
   }
 
   private _onPointerDown = (e: PointerEvent): void => {
-    // Only handle primary pointer (left mouse button, first touch)
-    if (!e.isPrimary || e.button !== 0) return;
+    if (e.button !== 0) return;
 
-    // Already tracking a pointer
-    if (this._activePointerId !== null) return;
+    // Only handle the primary pointer (first touch) unless tracking several
+    const multiple = this._options.multiple ?? false;
+    if (!multiple && !e.isPrimary) return;
+
+    // Already tracking this pointer, or any pointer in single mode
+    if (this._pointers.has(e.pointerId) || (!multiple && this._pointers.size > 0)) return;
+
+    const ignoreSelector = this._options.ignoreSelector;
+    if (ignoreSelector && (e.target as Element).closest?.(ignoreSelector)) return;
 
     // Find draggable element using event delegation
     const draggable = this._findDraggable(e);
     if (!draggable) return;
 
-    // Check if click was on handle (if handle selector is specified)
-    if (this._options.handleSelector) {
-      const handle = this._findHandle(e, draggable);
+    // An item follows one pointer at a time
+    for (const pointer of this._pointers.values()) {
+      if (pointer.element === draggable) return;
+    }
+
+    const itemOptions = this._options.getItemOptions?.(draggable);
+    if (itemOptions?.disabled) return;
+
+    // Check if click was on handle (per-item handle overrides the global one)
+    const handleSelector = itemOptions?.handle ?? this._options.handleSelector;
+    if (handleSelector) {
+      const handle = this._findHandle(e, draggable, handleSelector);
       if (!handle) return;
     }
 
     // Prevent default to avoid text selection and native drag
     e.preventDefault();
 
+    if (this._options.capture) {
+      e.stopPropagation();
+    }
+
     // Store initial state
-    this._activePointerId = e.pointerId;
-    this._activeElement = draggable;
-    this._startPosition = acquirePoint(e.clientX, e.clientY);
-    this._isDragging = false;
+    const pointer: TrackedPointer = {
+      id: e.pointerId,
+      element: draggable,
+      start: acquirePoint(e.clientX, e.clientY),
+      last: { x: e.clientX, y: e.clientY },
+      isDragging: false,
+      delayTimer: null,
+      activation: this._getActivation(e.pointerType),
+      isTouch: e.pointerType === 'touch',
+      throttle: new RAFThrottle<PointerEvent>((move) => this._processMove(pointer, move)),
+    };
+
+    const first = this._pointers.size === 0;
+    this._pointers.set(e.pointerId, pointer);
 
     // Set pointer capture for reliable tracking
     (e.target as HTMLElement).setPointerCapture(e.pointerId);
 
-    // Attach move/up listeners
-    const target = this._getEventTarget();
-    target.addEventListener('pointermove', this._onPointerMove, {
-      passive: true,
-    });
-    target.addEventListener('pointerup', this._onPointerUp);
-    target.addEventListener('pointercancel', this._onPointerCancel);
+    if (first) {
+      // Attach move/up listeners
+      const target = this._getEventTarget();
+      target.addEventListener('pointermove', this._onPointerMove, {
+        passive: true,
+      });
+      target.addEventListener('pointerup', this._onPointerUp);
+      target.addEventListener('pointercancel', this._onPointerCancel);
+
+      // Cancel keys are listened for on the document, focus may be anywhere
+      document.addEventListener('keydown', this._onKeyDown, true);
+
+      // Blocks scrolling once a touch drag starts; until then the page scrolls
+      // and the browser's pointercancel ends the pending press
+      document.addEventListener('touchmove', this._onTouchMove, { passive: false });
+    }
 
     // Handle delay threshold
-    const delay = this._options.delay ?? 0;
+    const { delay, distance } = pointer.activation;
     if (delay > 0) {
-      this._delayTimer = window.setTimeout(() => {
-        this._delayTimer = null;
-        this._startDrag(e);
+      pointer.delayTimer = window.setTimeout(() => {
+        pointer.delayTimer = null;
+        this._startDrag(pointer, e);
       }, delay);
-    } else if ((this._options.distance ?? 0) === 0) {
+    } else if (distance === 0) {
       // No delay or distance, start immediately
-      this._startDrag(e);
+      this._startDrag(pointer, e);
     }
   };
 
   private _onPointerMove = (e: PointerEvent): void => {
-    if (e.pointerId !== this._activePointerId) return;
+    const pointer = this._pointers.get(e.pointerId);
+    if (!pointer) return;
 
     // Process immediately or queue for RAF
     if (this._options.throttle === false) {
-      this._processMove(e);
+      this._processMove(pointer, e);
     } else {
-      this._moveThrottle.queue(e);
+      pointer.throttle.queue(e);
     }
   };
 
-  private _processMove = (e: PointerEvent): void => {
-    if (!this._startPosition || !this._activeElement) return;
+  private _processMove(pointer: TrackedPointer, e: PointerEvent): void {
+    if (this._pointers.get(pointer.id) !== pointer) return;
 
     const position = acquirePoint(e.clientX, e.clientY);
+    pointer.last = { x: e.clientX, y: e.clientY };
 
     // Check distance threshold if not yet dragging
-    if (!this._isDragging) {
-      const distance = this._options.distance ?? 0;
-      if (distance > 0) {
-        const dx = position.x - this._startPosition.x;
-        const dy = position.y - this._startPosition.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
+    if (!pointer.isDragging) {
+      const { distance, tolerance } = pointer.activation;
+      const dx = position.x - pointer.start.x;
+      const dy = position.y - pointer.start.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+
+      // Moved too far during a long-press: not a drag, let the gesture go
+      if (pointer.delayTimer !== null && dist > tolerance) {
+        pointPool.release(position);
+        this._release(pointer);
+        return;
+      }
 
+      if (distance > 0) {
         if (dist < distance) {
           pointPool.release(position);
           return;
         }
 
         // Distance threshold reached, start drag
-        this._clearDelayTimer();
-        this._startDrag(e);
+        this._clearDelayTimer(pointer);
+        this._startDrag(pointer, e);
       }
     }
 
-    if (this._isDragging) {
+    if (pointer.isDragging) {
       const delta = acquirePoint(
-        position.x - this._startPosition.x,
-        position.y - this._startPosition.y
+        position.x - pointer.start.x,
+        position.y - pointer.start.y
       );
 
       this.emit('pointermove', {
@@ -221,14 +310,15 @@ export class PointerSensor
     } else {
       pointPool.release(position);
     }
-  };
+  }
 
   private _onPointerUp = (e: PointerEvent): void => {
-    if (e.pointerId !== this._activePointerId) return;
+    const pointer = this._pointers.get(e.pointerId);
+    if (!pointer) return;
 
-    this._moveThrottle.flush();
+    pointer.throttle.flush();
 
-    if (this._isDragging) {
+    if (pointer.isDragging) {
       this.emit('pointerup', {
         position: acquirePoint(e.clientX, e.clientY),
         pointerId: e.pointerId,
@@ -236,15 +326,16 @@ export class PointerSensor
       });
     }
 
-    this._cleanup();
+    this._release(pointer);
   };
 
   private _onPointerCancel = (e: PointerEvent): void => {
-    if (e.pointerId !== this._activePointerId) return;
+    const pointer = this._pointers.get(e.pointerId);
+    if (!pointer) return;
 
-    this._moveThrottle.cancel();
+    pointer.throttle.cancel();
 
-    if (this._isDragging) {
+    if (pointer.isDragging) {
       this.emit('pointercancel', {
         position: acquirePoint(e.clientX, e.clientY),
         pointerId: e.pointerId,
@@ -252,18 +343,59 @@ export class PointerSensor
       });
     }
 
-    this._cleanup();
+    this._release(pointer);
   };
 
-  private _startDrag(e: PointerEvent): void {
-    if (this._isDragging || !this._activeElement || !this._startPosition) return;
+  private _onKeyDown = (e: KeyboardEvent): void => {
+    const cancelKeys = this._options.cancelKeys ?? ['Escape'];
+    if (!cancelKeys.includes(e.key)) return;
+
+    // Cancels every tracked pointer; ones still below the delay/distance
+    // threshold just stop being tracked
+    for (const pointer of [...this._pointers.values()]) {
+      if (pointer.isDragging) {
+        e.preventDefault();
+        e.stopPropagation();
+
+        pointer.throttle.cancel();
+        this.emit('pointercancel', {
+          position: acquirePoint(pointer.last.x, pointer.last.y),
+          pointerId: pointer.id,
+          originalEvent: e,
+        });
+      }
+
+      this._release(pointer);
+    }
+  };
 
-    this._isDragging = true;
+  private _onTouchMove = (e: TouchEvent): void => {
+    if (!e.cancelable) return;
+
+    for (const pointer of this._pointers.values()) {
+      if (pointer.isTouch && pointer.isDragging) {
+        e.preventDefault();
+        return;
+      }
+    }
+  };
+
+  private _startDrag(pointer: TrackedPointer, e: PointerEvent): void {
+    if (pointer.isDragging || this._pointers.get(pointer.id) !== pointer) return;
+
+    // Touch panning is blocked from here by _onTouchMove; touch-action is
+    // read when the touch begins, so changing it now would have no effect
+    pointer.isDragging = true;
+
+    const { vibrate } = pointer.activation;
+    if (vibrate > 0 && typeof navigator.vibrate === 'function') {
+      navigator.vibrate(vibrate);
+    }
 
     this.emit('pointerdown', {
-      element: this._activeElement,
-      position: { x: this._startPosition.x, y: this._startPosition.y },
-      pointerId: e.pointerId,
+      element: pointer.element,
+      position: { x: pointer.start.x, y: pointer.start.y },
+      pointerId: pointer.id,
       originalEvent: e,
     });
   }
@@ -277,7 +409,7 @@ export class PointerSensor
     for (const el of path) {
       if (!(el instanceof HTMLElement)) continue;
 
-      if (el.matches(this._options.draggableSelector)) {
+      if (this._isDraggable(el)) {
         return el;
       }
 
@@ -288,14 +420,30 @@ export class PointerSensor
     }
 
     // Fallback for non-composed path
-    return target.closest?.(this._options.draggableSelector) as HTMLElement | null;
+    let current: Element | null = target;
+    while (current) {
+      if (current instanceof HTMLElement && this._isDraggable(current)) {
+        return current;
+      }
+      current = current.parentElement;
+    }
+    return null;
   }
 
-  private _findHandle(e: PointerEvent, draggable: HTMLElement): HTMLElement | null {
-    if (!this._options.handleSelector) return draggable;
+  private _isDraggable(element: HTMLElement): boolean {
+    return (
+      element.matches(this._options.draggableSelector) ||
+      this._options.getItemOptions?.(element) !== undefined
+    );
+  }
 
+  private _findHandle(
+    e: PointerEvent,
+    draggable: HTMLElement,
+    handleSelector: string
+  ): HTMLElement | null {
     const target = e.target as Element;
-    const handle = target.closest?.(this._options.handleSelector) as HTMLElement | null;
+    const handle = target.closest?.(handleSelector) as HTMLElement | null;
 
     // Handle must be inside the draggable
     if (handle && draggable.contains(handle)) {
@@ -305,32 +453,54 @@ export class PointerSensor
     return null;
   }
 
-  private _clearDelayTimer(): void {
-    if (this._delayTimer !== null) {
-      clearTimeout(this._delayTimer);
-      this._delayTimer = null;
+  /**
+   * Activation settings for a pointer type, falling back to delay/distance
+   */
+  private _getActivation(pointerType: string): Required<ActivationOptions> {
+    const overrides = this._options.activation?.[pointerType as keyof PointerActivation];
+    return {
+      delay: overrides?.delay ?? this._options.delay ?? 0,
+      distance: overrides?.distance ?? this._options.distance ?? 0,
+      tolerance: overrides?.tolerance ?? Infinity,
+      vibrate: overrides?.vibrate ?? 0,
+    };
+  }
+
+  private _clearDelayTimer(pointer: TrackedPointer): void {
+    if (pointer.delayTimer !== null) {
+      clearTimeout(pointer.delayTimer);
+      pointer.delayTimer = null;
     }
   }
 
-  private _cleanup(): void {
-    this._clearDelayTimer();
-    this._moveThrottle.cancel();
+  /**
+   * Stop tracking a pointer, removing the move/up listeners after the last one
+   */
+  private _release(pointer: TrackedPointer): void {
+    if (this._pointers.get(pointer.id) !== pointer) return;
+
+    this._clearDelayTimer(pointer);
+    pointer.throttle.destroy();
 
     // Release pooled objects
-    if (this._startPosition) {
-      pointPool.release(this._startPosition);
-      this._startPosition = null;
-    }
+    pointPool.release(pointer.start);
+
+    this._pointers.delete(pointer.id);
+    if (this._pointers.size > 0) return;
 
     // Remove move/up listeners
     const target = this._getEventTarget();
     target.removeEventListener('pointermove', this._onPointerMove);
     target.removeEventListener('pointerup', this._onPointerUp);
     target.removeEventListener('pointercancel', this._onPointerCancel);
+    document.removeEventListener('keydown', this._onKeyDown, true);
+    document.removeEventListener('touchmove', this._onTouchMove);
+  }
 
-    this._activePointerId = null;
-    this._activeElement = null;
-    this._isDragging = false;
+  private _cleanup(): void {
+    for (const pointer of [...this._pointers.values()]) {
+      this._release(pointer);
+    }
   }
 
   /**
@@ -338,7 +508,6 @@ export class PointerSensor
    */
   destroy(): void {
     this.detach();
-    this._moveThrottle.destroy();
     super.destroy();
   }
 }
@@ -1,2 +1,5 @@
 export { PointerSensor, type PointerSensorOptions, type PointerSensorEvents, type PointerStartEvent, type PointerMoveEvent, type PointerEndEvent } from './PointerSensor.js';
 export { FileSensor, type FileSensorOptions, type FileSensorEvents, type FileDragEvent, type FileDropEvent } from './FileSensor.js';
+export { KeyboardSensor, type KeyboardSensorOptions, type KeyboardSensorEvents, type KeyboardStartEvent, type KeyboardMoveEvent, type KeyboardEndEvent } from './KeyboardSensor.js';
+export { BridgeSensor, BRIDGE_EVENT, type BridgeSensorOptions, type BridgeSensorEvents, type BridgeEnterEvent, type BridgeMessage } from './BridgeSensor.js';
+export { NativeSensor, type NativeSensorOptions, type NativeSensorEvents, type NativeOverEvent, type NativeDropEvent, type NativeStartEvent } from './NativeSensor.js';
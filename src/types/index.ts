@@ -25,6 +25,8 @@ export type Axis = 'x' | 'y' | 'both';
 export interface DragSession {
   readonly id: string;
   readonly element: HTMLElement;
+  /** All dragged elements in document order (includes element) */
+  readonly elements: HTMLElement[];
   readonly origin: Point;
   readonly data: DataTransfer;
   current: Point;
@@ -46,13 +48,17 @@ export interface DataTransfer {
 
 // Event payloads
 export interface DragStartEvent {
+  /** Drag session id, tells concurrent multi-touch drags apart */
+  readonly sessionId: string;
   readonly element: HTMLElement;
+  readonly elements: HTMLElement[];
   readonly position: Point;
   readonly data: DataTransfer;
   cancel(): void;
 }
 
 export interface DragMoveEvent {
+  readonly sessionId: string;
   readonly element: HTMLElement;
   readonly position: Point;
   readonly delta: Point;
@@ -60,30 +66,100 @@ export interface DragMoveEvent {
 }
 
 export interface DragEndEvent {
+  readonly sessionId: string;
   readonly element: HTMLElement;
+  readonly elements: HTMLElement[];
   readonly position: Point;
   readonly delta: Point;
   readonly cancelled: boolean;
+  /** Resolves once the drop animation has finished (immediately if disabled) */
+  waitForAnimation(): Promise<void>;
 }
 
 export interface DropEvent {
+  readonly sessionId: string;
   readonly element: HTMLElement;
+  /** All dropped elements in document order (includes element) */
+  readonly elements: HTMLElement[];
   readonly dropZone: HTMLElement;
   readonly position: Point;
   readonly data: DataTransfer;
   readonly insertionIndex?: number;
   readonly sourceContainer?: HTMLElement;
+  /** Index of each dropped element in its container before the drag */
+  readonly originalIndices?: number[];
+  /**
+   * Item the dropped element traded places with, from swap mode.
+   * insertionIndex is its index, where the dropped element lands.
+   */
+  readonly swapTarget?: HTMLElement;
+  /** New parent's id from SortableTree (null at the root) */
+  readonly parentId?: string | null;
+  /** New depth from SortableTree (0 at the root) */
+  readonly depth?: number;
+  /** Dropped item's top-left corner in the canvas's local coordinates, from Canvas */
+  readonly localPosition?: Point;
+  /** The drop zone followed by its ancestor drop zones, innermost first */
+  readonly path: HTMLElement[];
+  /** Stop bubbling to ancestor drop zones */
+  stopPropagation(): void;
 }
 
 export interface DropZoneEnterEvent {
+  readonly sessionId: string;
   readonly element: HTMLElement;
   readonly dropZone: HTMLElement;
   readonly position: Point;
+  /** The drop zone followed by its ancestor drop zones, innermost first */
+  readonly path: HTMLElement[];
+  /** Stop bubbling to ancestor drop zones */
+  stopPropagation(): void;
 }
 
 export interface DropZoneLeaveEvent {
+  readonly sessionId: string;
   readonly element: HTMLElement;
   readonly dropZone: HTMLElement;
+  /** The drop zone followed by its ancestor drop zones, innermost first */
+  readonly path: HTMLElement[];
+  /** Stop bubbling to ancestor drop zones */
+  stopPropagation(): void;
+}
+
+// Index change reported by Sortable/Kanban while dragging
+export interface SortEvent {
+  readonly element: HTMLElement;
+  readonly container: HTMLElement;
+  readonly index: number;
+  readonly previousIndex: number;
+}
+
+export interface SelectionChangeEvent {
+  readonly selected: HTMLElement[];
+}
+
+export type ResizeHandle = 'n' | 'e' | 's' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export interface ResizeEvent {
+  readonly element: HTMLElement;
+  readonly handle: ResizeHandle;
+  readonly width: number;
+  readonly height: number;
+  /** How far the top-left corner moved since the resize started (n/w handles) */
+  readonly offset: Point;
+}
+
+export interface ResizeEndEvent extends ResizeEvent {
+  readonly cancelled: boolean;
+}
+
+export interface NativeDropEvent {
+  readonly dropZone: HTMLElement;
+  readonly position: Point;
+  /** Dropped MIME types and their values */
+  readonly data: DataTransfer;
+  /** The drop zone followed by its ancestor drop zones, innermost first */
+  readonly path: HTMLElement[];
 }
 
 export interface FileDropEvent {
@@ -110,6 +186,112 @@ export interface SortableOptions {
   animation?: number;
   ghostClass?: string;
   placeholderClass?: string;
+  /** Virtualized list: indices are computed from item sizes instead of the DOM */
+  virtual?: VirtualListOptions;
+  /** Shift items to make room, or trade places with the item dropped on (default: 'insert', not for virtual lists) */
+  mode?: SortMode;
+  /** Class on the item that will be swapped with (default: 'snap-swap-target') */
+  swapClass?: string;
+}
+
+// How Sortable and Kanban reorder on drop
+export type SortMode = 'insert' | 'swap';
+
+// A virtualized list, where only the rows in view are rendered
+export interface VirtualListOptions {
+  /** Element that scrolls the list */
+  scrollElement: HTMLElement;
+  /** Total number of items, rendered or not */
+  getCount: () => number;
+  /** Item size along the list axis in px, including any gap (estimated or measured) */
+  getItemSize: (index: number) => number;
+  /** Full-list index of a rendered row (-1 if unknown) */
+  getIndex: (element: HTMLElement) => number;
+  /** List direction (default: 'y') */
+  axis?: 'x' | 'y';
+  /** Space in px before the first item in the scroll content, e.g. a header (default: 0) */
+  offset?: number;
+}
+
+// Sortable tree plugin options
+export interface SortableTreeOptions {
+  /** Horizontal drag distance in px per depth level (default: 24) */
+  indentation?: number;
+  /** Deepest allowed depth, root items are depth 0 (default: Infinity) */
+  maxDepth?: number;
+  /** Selector for an item's nested list (default: 'ul, ol, [data-tree-children]') */
+  childrenSelector?: string;
+  /** Class marking collapsed items (default: 'snap-tree-collapsed') */
+  collapsedClass?: string;
+  /** Hover time in ms before a collapsed item expands (default: 600) */
+  expandDelay?: number;
+  /** Called when a collapsed item expands on hover */
+  onExpand?: (element: HTMLElement) => void;
+  /** Item id reported as DropEvent.parentId (default: data-drag-id) */
+  getId?: (element: HTMLElement) => string | null;
+  animation?: number;
+  placeholderClass?: string;
+}
+
+// Canvas plugin options
+export interface CanvasOptions {
+  /** Selector for drop zones that position dropped items freely (default: '[data-canvas]') */
+  containers?: string;
+  /** How the drop position is applied to the item (default: 'absolute') */
+  positioning?: 'absolute' | 'transform';
+  /** Canvas zoom factor (default: measured from its CSS transform) */
+  getScale?: (canvas: HTMLElement) => number;
+}
+
+// When a press turns into a drag
+export interface ActivationOptions {
+  /** Press duration in ms before the drag starts (long-press) */
+  delay?: number;
+  /** Distance in px the pointer must move before the drag starts */
+  distance?: number;
+  /** Movement in px allowed during the delay; more gives the gesture back to scrolling (default: Infinity) */
+  tolerance?: number;
+  /** Vibration pulse in ms when the drag starts, where supported (default: 0) */
+  vibrate?: number;
+}
+
+/** Activation settings per PointerEvent.pointerType, over the top-level delay/distance */
+export type PointerActivation = Partial<Record<'mouse' | 'touch' | 'pen', ActivationOptions>>;
+
+// Bridge to same-origin iframes and popups
+export interface BridgeOptions {
+  /** Selector for iframes drags can continue into (default: 'iframe') */
+  frames?: string;
+  /** Popup windows (from window.open) drags can continue into */
+  windows?: Window[];
+}
+
+// Native HTML5 drag and drop interop
+export interface NativeDragOptions {
+  /** MIME types accepted from native drags (default: text/plain, text/uri-list, text/html) */
+  accept?: string[];
+  /** Selector for handles that start a native drag out of the page, as Snap drags never become native ones (default: '[data-native-drag]') */
+  exportHandle?: string;
+  /** Native data for an item dragged out (default: its text, url and JSON data) */
+  toNative?: (data: DataTransfer, element: HTMLElement) => Record<string, string>;
+}
+
+// Resizable plugin options
+export interface ResizableOptions {
+  /** Selector for resizable elements (default: '[data-resizable]') */
+  items?: string;
+  /** Handles added to each element (default: all edges and corners) */
+  handles?: ResizeHandle[];
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Keep the starting width/height ratio, or a fixed ratio */
+  aspectRatio?: boolean | number;
+  /** Class added to handles (default: 'snap-resize-handle') */
+  handleClass?: string;
+  /** Class added to the element while resizing (default: 'snap-resizing') */
+  resizingClass?: string;
 }
 
 // Kanban plugin options
@@ -117,6 +299,10 @@ export interface KanbanOptions {
   containers?: string;
   items?: string;
   animation?: number;
+  /** Shift items to make room, or trade places with the item dropped on (default: 'insert') */
+  mode?: SortMode;
+  /** Class on the item that will be swapped with (default: 'snap-swap-target') */
+  swapClass?: string;
 }
 
 // File drop plugin options
@@ -126,6 +312,54 @@ export interface FileDropOptions {
   maxSize?: number;
 }
 
+// Keyboard sensor options (values are KeyboardEvent.key names)
+export interface KeyboardOptions {
+  /** Keys that pick up the focused draggable (default: Space, Enter) */
+  pickUpKeys?: string[];
+  /** Keys that drop the item being dragged (default: Space, Enter) */
+  dropKeys?: string[];
+  /** Keys that cancel the drag (default: Escape) */
+  cancelKeys?: string[];
+}
+
+// Built-in collision detection strategies
+export type CollisionStrategy =
+  | 'pointer-within'
+  | 'rect-intersection'
+  | 'closest-center'
+  | 'closest-corners'
+  | 'largest-overlap';
+
+export interface CollisionZone {
+  readonly element: HTMLElement;
+  readonly rect: DOMRect;
+}
+
+export interface CollisionArgs {
+  /** Pointer (or keyboard) position */
+  readonly position: Point;
+  /** Ghost rect, or null when there is no ghost */
+  readonly dragRect: DOMRect | null;
+  readonly dropZones: readonly CollisionZone[];
+}
+
+// Returns colliding zones ordered best match first
+export type CollisionDetector = (args: CollisionArgs) => HTMLElement[];
+
+// Drop animation options
+export interface DropAnimationOptions {
+  /** Duration in ms (default: 200) */
+  duration?: number;
+  /** CSS timing function (default: 'ease') */
+  easing?: string;
+}
+
+// Multi-select options
+export interface MultiSelectOptions {
+  /** Class added to selected draggables (default: 'snap-selected') */
+  selectedClass?: string;
+}
+
 // Item-specific options (for imperative API)
 export interface ItemOptions {
   data?: Record<string, unknown>;
@@ -139,6 +373,22 @@ export interface DropZoneOptions {
   accepts?: string[] | ((data: DataTransfer) => boolean);
   onEnter?: (event: DropZoneEnterEvent) => void;
   onLeave?: (event: DropZoneLeaveEvent) => void;
+  onDrop?: (event: DropEvent) => void;
+  /** Also receive onEnter/onLeave/onDrop for drags over nested drop zones */
+  bubble?: boolean;
+}
+
+// Screen reader messages per drag lifecycle event
+// Return undefined (or an empty string) to stay silent
+export interface Announcements {
+  dragStart?: (event: DragStartEvent) => string | undefined;
+  dropZoneEnter?: (event: DropZoneEnterEvent) => string | undefined;
+  dropZoneLeave?: (event: DropZoneLeaveEvent) => string | undefined;
+  sort?: (event: SortEvent) => string | undefined;
+  drop?: (event: DropEvent) => string | undefined;
+  /** Drag ended outside any drop zone */
+  dragEnd?: (event: DragEndEvent) => string | undefined;
+  cancel?: (event: DragEndEvent) => string | undefined;
 }
 
 // Main configuration options
@@ -153,10 +403,31 @@ export interface SnapOptions {
   grid?: GridOptions;
   delay?: number;
   distance?: number;
+  /** Per pointer type activation, e.g. long-press for touch only */
+  activation?: PointerActivation;
+  /** Concurrent drags, one per pointer, each with its own ghost (default: false) */
+  multiTouch?: boolean;
+  /** Share drop zones with other Snap instances using the same group name */
+  group?: string;
+  /** Carry drags into and accept drags from same-origin iframes and popups */
+  bridge?: boolean | BridgeOptions;
+  /** Accept native drags from other apps and tabs, and export items as native drags */
+  native?: boolean | NativeDragOptions;
+  /** How the drop zone under the drag is resolved (default: 'pointer-within') */
+  collision?: CollisionStrategy | CollisionDetector;
 
   // Auto-scroll
   autoScroll?: boolean | AutoScrollOptions;
 
+  /** Keyboard drag and drop for focused draggables (default: true) */
+  keyboard?: boolean | KeyboardOptions;
+
+  /** Animate the ghost to the item's final position on drop, or back on cancel */
+  dropAnimation?: boolean | DropAnimationOptions;
+
+  /** Ctrl/Cmd-click and Shift-click selection; dragging a selected item drags them all */
+  multiSelect?: boolean | MultiSelectOptions;
+
   // Callbacks
   onDragStart?: (event: DragStartEvent) => void | false;
   onDragMove?: (event: DragMoveEvent) => void;
@@ -164,11 +435,23 @@ export interface SnapOptions {
   onDrop?: (event: DropEvent) => void;
   onDropZoneEnter?: (event: DropZoneEnterEvent) => void;
   onDropZoneLeave?: (event: DropZoneLeaveEvent) => void;
+  onSort?: (event: SortEvent) => void;
+  onSelectionChange?: (event: SelectionChangeEvent) => void;
+  /** Return false to prevent the resize (Resizable plugin) */
+  onResizeStart?: (event: ResizeEvent) => void | false;
+  onResize?: (event: ResizeEvent) => void;
+  onResizeEnd?: (event: ResizeEndEvent) => void;
+  /** Native drag from another app or tab dropped on a zone (native option) */
+  onNativeDrop?: (event: NativeDropEvent) => void;
+
+  /** Screen reader announcements (set false to disable, or override messages per event) */
+  announcements?: false | Announcements;
 
   // Plugins
   sortable?: boolean | SortableOptions;
   kanban?: boolean | KanbanOptions;
   fileDrop?: boolean | FileDropOptions;
+  canvas?: boolean | CanvasOptions;
 
   // Advanced
   autoRefresh?: boolean;
@@ -202,9 +485,29 @@ export interface Plugin {
   destroy(): void;
 }
 
+// Context passed through the position modifier pipeline
+export interface ModifierContext {
+  readonly session: DragSession;
+  /** Raw pointer (or keyboard) position before any modifier ran */
+  readonly pointer: Point;
+  /** Pointer offset from the dragged element's top-left corner */
+  readonly offset: Point;
+  /** Size of the dragged element */
+  readonly size: { width: number; height: number };
+}
+
+export interface ModifiedPosition extends Point {
+  /** Extra CSS transform applied to the ghost after its translate */
+  ghostTransform?: string;
+}
+
 // Behavior interface
 export interface Behavior {
   name: string;
+  /** Order in the modifier pipeline, lower runs first (default: 0) */
+  priority?: number;
+  /** Transform the drag position; return nothing to leave it unchanged */
+  modifyPosition?(position: Point, context: ModifierContext): ModifiedPosition | void;
   onDragStart?(session: DragSession): void;
   onDragMove?(session: DragSession): void;
   onDragEnd?(session: DragSession): void;
@@ -219,6 +522,12 @@ export interface SnapEventMap {
   drop: DropEvent;
   dropzoneenter: DropZoneEnterEvent;
   dropzoneleave: DropZoneLeaveEvent;
+  sort: SortEvent;
+  selectionchange: SelectionChangeEvent;
+  resizestart: ResizeEvent;
+  resize: ResizeEvent;
+  resizeend: ResizeEndEvent;
+  nativedrop: NativeDropEvent;
 }
 
 export type SnapEventName = keyof SnapEventMap;
@@ -235,8 +544,15 @@ export interface SnapInstance {
   removeDraggable(element: HTMLElement): void;
   addDropZone(element: HTMLElement, options?: DropZoneOptions): void;
   removeDropZone(element: HTMLElement): void;
+  addBehavior(behavior: Behavior): SnapInstance;
+  removeBehavior(behavior: Behavior): void;
+  isDraggable(element: HTMLElement): boolean;
   isDragging(): boolean;
   getActiveElement(): HTMLElement | null;
+  select(elements: HTMLElement | HTMLElement[]): void;
+  deselect(elements: HTMLElement | HTMLElement[]): void;
+  clearSelection(): void;
+  getSelection(): HTMLElement[];
   on<K extends SnapEventName>(event: K, callback: (e: SnapEventMap[K]) => void): Unsubscribe;
   off<K extends SnapEventName>(event: K, callback: (e: SnapEventMap[K]) => void): void;
 }
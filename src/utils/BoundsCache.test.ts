@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BoundsCache } from './BoundsCache.js';
+
+// Stand-in for ResizeObserver, which happy-dom never fires
+class FakeResizeObserver {
+  static last: FakeResizeObserver | null = null;
+  observed = new Set<Element>();
+  callback: (entries: ResizeObserverEntry[]) => void;
+
+  constructor(callback: (entries: ResizeObserverEntry[]) => void) {
+    this.callback = callback;
+    FakeResizeObserver.last = this;
+  }
+
+  observe(element: Element): void {
+    this.observed.add(element);
+  }
+
+  unobserve(element: Element): void {
+    this.observed.delete(element);
+  }
+
+  disconnect(): void {
+    this.observed.clear();
+  }
+
+  resize(element: Element, width: number, height: number): void {
+    this.callback([
+      { target: element, contentRect: new DOMRect(0, 0, width, height) } as unknown as ResizeObserverEntry,
+    ]);
+  }
+}
+
+function measured(element: HTMLElement, x: number, y: number, width = 100, height = 50) {
+  const measure = vi.fn(() => new DOMRect(x, y, width, height));
+  element.getBoundingClientRect = measure;
+  return measure;
+}
+
+function scrollTo(element: HTMLElement, top: number): void {
+  Object.defineProperty(element, 'scrollTop', { value: top, configurable: true });
+}
+
+describe('BoundsCache', () => {
+  let cache: BoundsCache;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="scroller"><div id="item"></div></div>';
+    element = document.getElementById('item')!;
+    cache = new BoundsCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('caches rects without acquire() until they are invalidated', () => {
+    const measure = measured(element, 10, 20);
+
+    expect(cache.get(element).y).toBe(20);
+    cache.get(element);
+    expect(measure).toHaveBeenCalledTimes(1);
+
+    cache.invalidate(element);
+    cache.get(element);
+    expect(measure).toHaveBeenCalledTimes(2);
+  });
+
+  it('bumps the generation on invalidateAll and re-measures once', () => {
+    const measure = measured(element, 0, 0);
+    cache.get(element);
+    const generation = cache.generation;
+
+    cache.invalidateAll();
+    expect(cache.generation).toBe(generation + 1);
+
+    cache.get(element);
+    cache.get(element);
+    expect(measure).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps clearDirty() callable', () => {
+    expect(() => cache.clearDirty()).not.toThrow();
+  });
+
+  it('shifts cached rects by the scroll delta instead of re-measuring', () => {
+    const scroller = document.getElementById('scroller')!;
+    const measure = measured(element, 0, 300);
+
+    // Seen scrolling before the element is measured
+    scrollTo(scroller, 0);
+    cache.scrolled(scroller);
+    cache.get(element);
+
+    scrollTo(scroller, 120);
+    cache.scrolled(scroller);
+
+    expect(cache.get(element).y).toBe(180);
+    expect(measure).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-measures when a scroller shows up after the rect was measured', () => {
+    const scroller = document.getElementById('scroller')!;
+    const measure = measured(element, 0, 300);
+    cache.get(element);
+
+    // Its offset before this scroll is unknown, so the rect can't be shifted
+    scrollTo(scroller, 40);
+    cache.scrolled(scroller);
+    cache.get(element);
+
+    expect(measure).toHaveBeenCalledTimes(2);
+  });
+
+  it('listens for scrolls only while acquired', () => {
+    const add = vi.spyOn(window, 'addEventListener');
+    const remove = vi.spyOn(window, 'removeEventListener');
+
+    cache.acquire();
+    cache.acquire();
+    expect(add.mock.calls.filter(([type]) => type === 'scroll')).toHaveLength(1);
+
+    cache.release();
+    expect(remove.mock.calls.filter(([type]) => type === 'scroll')).toHaveLength(0);
+    cache.release();
+    expect(remove.mock.calls.filter(([type]) => type === 'scroll')).toHaveLength(1);
+
+    // Extra releases don't go negative
+    cache.release();
+    cache.acquire();
+    expect(add.mock.calls.filter(([type]) => type === 'scroll')).toHaveLength(2);
+
+    add.mockRestore();
+    remove.mockRestore();
+    cache.release();
+  });
+
+  it('applies scroll events it hears while acquired', () => {
+    const scroller = document.getElementById('scroller')!;
+    measured(element, 0, 300);
+    cache.acquire();
+
+    scrollTo(scroller, 0);
+    scroller.dispatchEvent(new Event('scroll'));
+    cache.get(element);
+    scrollTo(scroller, 100);
+    scroller.dispatchEvent(new Event('scroll'));
+
+    expect(cache.get(element).y).toBe(200);
+    cache.release();
+  });
+
+  describe('resizes', () => {
+    beforeEach(() => {
+      vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+      cache.acquire();
+    });
+
+    afterEach(() => {
+      cache.release();
+    });
+
+    it('invalidates everything when a measured element changes size', () => {
+      const measure = measured(element, 0, 0);
+      cache.get(element);
+      const observer = FakeResizeObserver.last!;
+      const generation = cache.generation;
+
+      // The first notification only reports the current size
+      observer.resize(element, 100, 50);
+      expect(cache.generation).toBe(generation);
+
+      observer.resize(element, 100, 80);
+      expect(cache.generation).toBe(generation + 1);
+
+      cache.get(element);
+      expect(measure).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops observing elements once their rects are stale or removed', () => {
+      const other = document.createElement('div');
+      document.body.appendChild(other);
+      measured(element, 0, 0);
+      measured(other, 0, 100);
+      cache.get(element);
+      cache.get(other);
+      const observer = FakeResizeObserver.last!;
+      expect(observer.observed.size).toBe(2);
+
+      cache.remove(other);
+      expect(observer.observed.has(other)).toBe(false);
+
+      cache.invalidateAll();
+      expect(observer.observed.size).toBe(0);
+
+      // Measuring again watches it again
+      cache.get(element);
+      expect(observer.observed.has(element)).toBe(true);
+    });
+
+    it('ignores notifications queued before an element was unobserved', () => {
+      measured(element, 0, 0);
+      cache.get(element);
+      const observer = FakeResizeObserver.last!;
+      cache.invalidate(element);
+      const generation = cache.generation;
+
+      observer.resize(element, 10, 10);
+      expect(cache.generation).toBe(generation);
+
+      cache.get(element);
+      expect(observer.observed.has(element)).toBe(true);
+    });
+
+    it('disconnects on the last release', () => {
+      measured(element, 0, 0);
+      cache.get(element);
+      const observer = FakeResizeObserver.last!;
+
+      cache.release();
+      expect(observer.observed.size).toBe(0);
+      cache.acquire();
+    });
+  });
+});
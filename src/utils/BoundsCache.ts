@@ -1,26 +1,101 @@
 /**
  * Cached bounding rect manager using WeakMap
  * Automatically cleans up when elements are removed from DOM
+ * Cached rects follow scrolling by applying scroll deltas instead of being
+ * re-measured; a resize of any cached element re-measures them all once
+ * Scroll and resize tracking runs while a Snap instance holds the cache;
+ * without it, rects stay cached until invalidated
  */
+
+// Something that scrolls its content: an element or a whole document
+type Scroller = Element | Document;
+
+interface ScrollState {
+  x: number;
+  y: number;
+  /** Registry version when the scroller was first seen scrolling */
+  registeredAt: number;
+}
+
+interface CacheEntry {
+  rect: DOMRect;
+  /** Invalidation generation the rect was measured in */
+  generation: number;
+  /** Registry version the scroller list below was built against */
+  registry: number;
+  /** Known scrollers moving the element, with their offsets as of rect */
+  scrollers: Scroller[];
+  offsets: { x: number; y: number }[];
+  /** Inside a sticky element, scrolling moves it unpredictably */
+  sticky: boolean;
+}
+
+interface PositionEntry {
+  position: string;
+  generation: number;
+}
+
 export class BoundsCache {
-  private _cache = new WeakMap<Element, DOMRect>();
+  private _cache = new WeakMap<Element, CacheEntry>();
   private _dirty = new WeakSet<Element>();
-  private _invalidateAll = false;
+  private _generation = 0;
+
+  // Scroll offsets of every scroller seen scrolling
+  private _scrollers = new WeakMap<Scroller, ScrollState>();
+  private _registry = 0;
+
+  // Computed `position` of ancestors, shared by every element below them
+  private _positions = new WeakMap<Element, PositionEntry>();
+
+  // Instances holding the cache, and its scroll listener while they do
+  private _users = 0;
+  private _scrollListener: ((e: Event) => void) | null = null;
+
+  // Resizes of cached elements, with their last observed size
+  private _resizeObserver: ResizeObserver | null = null;
+  private _sizes = new WeakMap<Element, { width: number; height: number }>();
 
   /**
    * Get cached bounds for an element, or compute and cache
    */
   get(element: Element): DOMRect {
-    if (this._invalidateAll || this._dirty.has(element)) {
+    const entry = this._cache.get(element);
+    if (!entry || entry.generation !== this._generation || this._dirty.has(element)) {
       return this._update(element);
     }
 
-    const cached = this._cache.get(element);
-    if (cached) {
-      return cached;
+    // A scroller seen for the first time since measuring may have moved it
+    if (entry.registry !== this._registry) {
+      const scrollers = this._findScrollers(element);
+      const known = new Set(entry.scrollers);
+      const moved = scrollers.scrollers.some(
+        (scroller) => !known.has(scroller) && this._scrollers.get(scroller)!.registeredAt > entry.registry
+      );
+      if (moved) return this._update(element);
+      entry.registry = this._registry;
     }
 
-    return this._update(element);
+    // Shift by how far the scrollers moved since
+    let dx = 0;
+    let dy = 0;
+    entry.scrollers.forEach((scroller, i) => {
+      const state = this._scrollers.get(scroller)!;
+      dx += state.x - entry.offsets[i].x;
+      dy += state.y - entry.offsets[i].y;
+    });
+    if (dx === 0 && dy === 0) {
+      return entry.rect;
+    }
+    if (entry.sticky) {
+      return this._update(element);
+    }
+
+    entry.rect = new DOMRect(entry.rect.x - dx, entry.rect.y - dy, entry.rect.width, entry.rect.height);
+    entry.offsets = entry.scrollers.map((scroller) => {
+      const state = this._scrollers.get(scroller)!;
+      return { x: state.x, y: state.y };
+    });
+    return entry.rect;
   }
 
   /**
@@ -28,13 +103,69 @@ export class BoundsCache {
    */
   invalidate(element: Element): void {
     this._dirty.add(element);
+    this._unobserve(element);
   }
 
   /**
-   * Mark all cached bounds as dirty (e.g., on scroll/resize)
+   * Mark all cached bounds as dirty (e.g., after layout changes).
+   * Rects measured afterwards stay cached.
    */
   invalidateAll(): void {
-    this._invalidateAll = true;
+    this._generation++;
+
+    // Stop watching what was measured before; measuring again re-observes,
+    // so removed elements aren't kept alive by the observer
+    if (this._resizeObserver) {
+      this._resizeObserver.disconnect();
+      this._sizes = new WeakMap();
+    }
+  }
+
+  /**
+   * @deprecated invalidateAll() only affects rects measured before it, so
+   * there is no dirty flag left to clear. Kept so existing calls still work.
+   */
+  clearDirty(): void {}
+
+  /**
+   * Bumped by invalidateAll(), including after resizes; rects read from
+   * the cache before a change of generation are stale
+   */
+  get generation(): number {
+    return this._generation;
+  }
+
+  /**
+   * Start tracking scrolls and resizes for a new user of the cache
+   */
+  acquire(): void {
+    if (this._users++ > 0 || typeof window === 'undefined') return;
+
+    // Capture phase sees scrolls of nested containers, which don't bubble
+    this._scrollListener = (e) => this.scrolled(e.target);
+    window.addEventListener('scroll', this._scrollListener, { capture: true, passive: true });
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(this._onResize);
+    }
+  }
+
+  /**
+   * Stop tracking once the last user is gone
+   */
+  release(): void {
+    if (this._users === 0 || --this._users > 0) return;
+
+    if (this._scrollListener) {
+      window.removeEventListener('scroll', this._scrollListener, { capture: true });
+      this._scrollListener = null;
+    }
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+    this._sizes = new WeakMap();
+
+    // Scroll offsets go stale from here on
+    this.invalidateAll();
   }
 
   /**
@@ -49,23 +180,135 @@ export class BoundsCache {
    */
   remove(element: Element): void {
     this._cache.delete(element);
+    this._unobserve(element);
   }
 
   /**
-   * Clear the dirty flag after a frame
+   * Record a scroller's new offset. The cache listens for scroll events
+   * itself; call this to apply a scroll before that listener has run.
    */
-  clearDirty(): void {
-    this._invalidateAll = false;
-    // WeakSet doesn't have clear(), but dirty elements
-    // will be refreshed on next get() call
+  scrolled(target: EventTarget | null): void {
+    if (!(target instanceof Element || target instanceof Document)) return;
+
+    const offset = getScrollOffset(target);
+    const state = this._scrollers.get(target);
+    if (state) {
+      state.x = offset.x;
+      state.y = offset.y;
+    } else {
+      this._scrollers.set(target, { ...offset, registeredAt: ++this._registry });
+    }
   }
 
   private _update(element: Element): DOMRect {
     const rect = element.getBoundingClientRect();
-    this._cache.set(element, rect);
+    const { scrollers, sticky } = this._findScrollers(element);
+    this._cache.set(element, {
+      rect,
+      generation: this._generation,
+      registry: this._registry,
+      scrollers,
+      offsets: scrollers.map((scroller) => {
+        const state = this._scrollers.get(scroller)!;
+        return { x: state.x, y: state.y };
+      }),
+      sticky,
+    });
     this._dirty.delete(element);
+
+    if (this._resizeObserver && !this._sizes.has(element)) {
+      this._sizes.set(element, { width: -1, height: -1 });
+      this._resizeObserver.observe(element);
+    }
     return rect;
   }
+
+  /**
+   * Known scrollers between an element and the viewport, stopping at a
+   * fixed-position element since nothing above it moves it
+   */
+  private _findScrollers(element: Element): { scrollers: Scroller[]; sticky: boolean } {
+    const scrollers: Scroller[] = [];
+    let sticky = false;
+    if (this._registry === 0) return { scrollers, sticky };
+
+    const view = element.ownerDocument.defaultView ?? window;
+    for (let current: Element | null = element; current; current = getComposedParent(current)) {
+      if (current !== element && this._scrollers.has(current)) {
+        scrollers.push(current);
+      }
+
+      const position = this._getPosition(view, current);
+      if (position === 'fixed') return { scrollers, sticky };
+      if (position === 'sticky') sticky = true;
+    }
+
+    if (this._scrollers.has(element.ownerDocument)) {
+      scrollers.push(element.ownerDocument);
+    }
+    return { scrollers, sticky };
+  }
+
+  private _unobserve(element: Element): void {
+    if (this._sizes.delete(element)) {
+      this._resizeObserver?.unobserve(element);
+    }
+  }
+
+  /**
+   * Computed position, re-read after invalidateAll() as classes may change it
+   */
+  private _getPosition(view: Window, element: Element): string {
+    const cached = this._positions.get(element);
+    if (cached && cached.generation === this._generation) {
+      return cached.position;
+    }
+
+    const position = view.getComputedStyle(element).position;
+    this._positions.set(element, { position, generation: this._generation });
+    return position;
+  }
+
+  private _onResize = (entries: ResizeObserverEntry[]): void => {
+    let resized = false;
+    for (const entry of entries) {
+      const { width, height } = entry.contentRect;
+      const previous = this._sizes.get(entry.target);
+      // Queued before the element was unobserved
+      if (!previous) continue;
+
+      // The first notification after observe() only reports the current size
+      if (previous.width !== -1 && (previous.width !== width || previous.height !== height)) {
+        resized = true;
+      }
+      this._sizes.set(entry.target, { width, height });
+    }
+
+    // A resize shifts whatever comes after it, not just the resized element
+    if (resized) {
+      this.invalidateAll();
+    }
+  };
+}
+
+/**
+ * Current scroll offset of an element or document
+ */
+function getScrollOffset(scroller: Scroller): { x: number; y: number } {
+  if (scroller instanceof Document) {
+    const view = scroller.defaultView;
+    return { x: view?.scrollX ?? 0, y: view?.scrollY ?? 0 };
+  }
+  return { x: scroller.scrollLeft, y: scroller.scrollTop };
+}
+
+/**
+ * Parent element, crossing from a shadow root to its host
+ */
+function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) return element.parentElement;
+  const root = element.parentNode;
+  return root instanceof ShadowRoot ? root.host : null;
 }
 
 // Singleton instance for shared use
@@ -0,0 +1,29 @@
+/**
+ * Callback wrapping for plugins that extend snap.options callbacks
+ */
+import type { SnapInstance, SnapOptions } from '../types/index.js';
+
+/**
+ * Install wrappers over the current callbacks. The returned function puts
+ * the previous callbacks back, except where a later plugin has wrapped
+ * them again; those wrappers stay and should pass events through.
+ */
+export function wrapCallbacks(snap: SnapInstance, callbacks: Partial<SnapOptions>): () => void {
+  const keys = Object.keys(callbacks) as (keyof SnapOptions)[];
+  const previous: Partial<Record<keyof SnapOptions, unknown>> = {};
+  for (const key of keys) {
+    previous[key] = snap.options[key];
+  }
+
+  snap.setOptions(callbacks);
+
+  return () => {
+    const restore: Partial<Record<keyof SnapOptions, unknown>> = {};
+    for (const key of keys) {
+      if (snap.options[key] === callbacks[key]) {
+        restore[key] = previous[key];
+      }
+    }
+    snap.setOptions(restore as Partial<SnapOptions>);
+  };
+}
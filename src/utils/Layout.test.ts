@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { getLayoutRows, getInsertionIndex, swapElements } from './Layout.js';
+
+// Items of a fixed size laid out left to right, wrapping after `columns`
+function grid(count: number, columns: number, size = 100, gap = 10): DOMRect[] {
+  return Array.from({ length: count }, (_, i) => {
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    return new DOMRect(column * (size + gap), row * (size + gap), size, size);
+  });
+}
+
+describe('getLayoutRows', () => {
+  it('puts a vertical list in one row per item', () => {
+    const rows = getLayoutRows(grid(3, 1));
+
+    expect(rows.map((row) => [row.start, row.end])).toEqual([
+      [0, 1],
+      [1, 2],
+      [2, 3],
+    ]);
+  });
+
+  it('groups a wrapped grid into rows with their extents', () => {
+    const rows = getLayoutRows(grid(7, 3));
+
+    expect(rows.map((row) => [row.start, row.end])).toEqual([
+      [0, 3],
+      [3, 6],
+      [6, 7],
+    ]);
+    expect(rows[1].top).toBe(110);
+    expect(rows[1].bottom).toBe(210);
+  });
+
+  it('keeps items of different heights in the same row', () => {
+    const rows = getLayoutRows([
+      new DOMRect(0, 0, 100, 40),
+      new DOMRect(110, 0, 100, 120),
+      new DOMRect(220, 0, 100, 60),
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].bottom).toBe(120);
+  });
+
+  it('keeps a vertical list with slightly overlapping items in separate rows', () => {
+    const rects = [0, 1, 2].map((i) => new DOMRect(0, i * 99, 100, 100));
+
+    expect(getLayoutRows(rects)).toHaveLength(3);
+  });
+});
+
+describe('getInsertionIndex', () => {
+  it('returns 0 for an empty list', () => {
+    expect(getInsertionIndex([], 50, 50)).toBe(0);
+  });
+
+  it('compares by y in a vertical list', () => {
+    const rects = grid(3, 1);
+
+    expect(getInsertionIndex(rects, 50, 10)).toBe(0);
+    expect(getInsertionIndex(rects, 50, 100)).toBe(1);
+    expect(getInsertionIndex(rects, 50, 500)).toBe(3);
+  });
+
+  it('compares by x in a horizontal list', () => {
+    const rects = grid(3, 3);
+
+    expect(getInsertionIndex(rects, 10, 50)).toBe(0);
+    expect(getInsertionIndex(rects, 180, 50)).toBe(2);
+    expect(getInsertionIndex(rects, 400, 50)).toBe(3);
+  });
+
+  it('picks the row, then the column, in a wrapped grid', () => {
+    const rects = grid(7, 3);
+
+    // Second row, left half of its middle item
+    expect(getInsertionIndex(rects, 130, 150)).toBe(4);
+    // Past the end of the second row
+    expect(getInsertionIndex(rects, 400, 150)).toBe(6);
+    // Last, partial row
+    expect(getInsertionIndex(rects, 80, 260)).toBe(7);
+  });
+
+  it('sends a pointer in the gap between rows to the nearer row', () => {
+    const rects = grid(6, 3, 100, 40);
+
+    // Rows span 0-100 and 140-240; the gap's midpoint is 120
+    expect(getInsertionIndex(rects, 10, 115)).toBe(0);
+    expect(getInsertionIndex(rects, 10, 125)).toBe(3);
+  });
+
+  it('uses the first or last row outside the grid', () => {
+    const rects = grid(6, 3);
+
+    expect(getInsertionIndex(rects, 400, -50)).toBe(3);
+    expect(getInsertionIndex(rects, -50, 900)).toBe(3);
+  });
+});
+
+describe('swapElements', () => {
+  it('swaps siblings', () => {
+    document.body.innerHTML = '<ul><li id="a"></li><li id="b"></li><li id="c"></li></ul>';
+    const [a, , c] = Array.from(document.querySelectorAll('li'));
+
+    swapElements(a, c);
+
+    expect(Array.from(document.querySelectorAll('li'), (li) => li.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('swaps adjacent siblings', () => {
+    document.body.innerHTML = '<ul><li id="a"></li><li id="b"></li></ul>';
+    const [a, b] = Array.from(document.querySelectorAll('li'));
+
+    swapElements(b, a);
+
+    expect(Array.from(document.querySelectorAll('li'), (li) => li.id)).toEqual(['b', 'a']);
+  });
+
+  it('swaps across parents', () => {
+    document.body.innerHTML = '<ul id="x"><li id="a"></li></ul><ul id="y"><li id="b"></li></ul>';
+    const a = document.getElementById('a')!;
+    const b = document.getElementById('b')!;
+
+    swapElements(a, b);
+
+    expect(a.parentElement?.id).toBe('y');
+    expect(b.parentElement?.id).toBe('x');
+    expect(document.body.querySelectorAll('ul > *')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Insertion point math for lists laid out in one or two dimensions
+ * Rows are detected from the rects themselves, so vertical lists,
+ * horizontal lists and wrapped flex/grid layouts all work
+ * Also holds the DOM move for swap mode
+ */
+import { rectCenter } from './BoundsCache.js';
+
+export interface LayoutRow {
+  /** Index of the row's first rect */
+  start: number;
+  /** Index after the row's last rect */
+  end: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Group rects in document order into visual rows. An item starts a new row
+ * when less than half of it (or of the row, if shorter) overlaps the current
+ * row vertically, or when it wraps back to the left of the previous item.
+ */
+export function getLayoutRows(rects: DOMRect[]): LayoutRow[] {
+  const rows: LayoutRow[] = [];
+  let row: LayoutRow | null = null;
+
+  rects.forEach((rect, i) => {
+    const overlap = row ? Math.min(row.bottom, rect.bottom) - Math.max(row.top, rect.top) : 0;
+    const shorter = row ? Math.min(rect.height, row.bottom - row.top) : 0;
+    if (row && overlap > shorter / 2 && rect.left >= rects[i - 1].left) {
+      row.end = i + 1;
+      row.top = Math.min(row.top, rect.top);
+      row.bottom = Math.max(row.bottom, rect.bottom);
+    } else {
+      row = { start: i, end: i + 1, top: rect.top, bottom: rect.bottom };
+      rows.push(row);
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * Index to insert at for a pointer over rects in document order.
+ * The nearest row is picked first, then the slot within it by column.
+ */
+export function getInsertionIndex(rects: DOMRect[], x: number, y: number): number {
+  if (rects.length === 0) return 0;
+
+  const rows = getLayoutRows(rects);
+
+  // A single row compares by column, a single column by row
+  if (rows.length === 1 || rows.length === rects.length) {
+    const vertical = rows.length > 1;
+    for (let i = 0; i < rects.length; i++) {
+      const center = rectCenter(rects[i]);
+      if (vertical ? y < center.y : x < center.x) return i;
+    }
+    return rects.length;
+  }
+
+  // Nearest row; a pointer in the gap between rows goes to the closer one
+  let row = rows[rows.length - 1];
+  for (let i = 0; i < rows.length - 1; i++) {
+    if (y < (rows[i].bottom + rows[i + 1].top) / 2) {
+      row = rows[i];
+      break;
+    }
+  }
+
+  for (let i = row.start; i < row.end; i++) {
+    if (x < rectCenter(rects[i]).x) return i;
+  }
+  return row.end;
+}
+
+/**
+ * Exchange two elements' places in the DOM, in the same or different parents
+ */
+export function swapElements(a: Element, b: Element): void {
+  const marker = document.createComment('');
+  a.before(marker);
+  b.before(a);
+  marker.replaceWith(b);
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialIndex } from './SpatialIndex.js';
+
+describe('SpatialIndex', () => {
+  it('finds items whose rects intersect the area', () => {
+    const index = new SpatialIndex<string>(100);
+    index.set('a', new DOMRect(0, 0, 50, 50));
+    index.set('b', new DOMRect(120, 0, 50, 50));
+    index.set('c', new DOMRect(500, 500, 50, 50));
+
+    expect(index.search(new DOMRect(40, 10, 100, 10))).toEqual(['a', 'b']);
+    expect(index.search(new DOMRect(300, 300, 10, 10))).toEqual([]);
+    expect(index.size).toBe(3);
+  });
+
+  it('returns each item once, in insertion order', () => {
+    const index = new SpatialIndex<string>(10);
+    // Spans several cells, all overlapped by the search
+    index.set('wide', new DOMRect(0, 0, 35, 5));
+    index.set('first-cell', new DOMRect(2, 2, 2, 2));
+
+    expect(index.search(new DOMRect(0, 0, 40, 10))).toEqual(['wide', 'first-cell']);
+  });
+
+  it('keeps the original order when an item moves', () => {
+    const index = new SpatialIndex<string>(100);
+    index.set('a', new DOMRect(0, 0, 10, 10));
+    index.set('b', new DOMRect(20, 0, 10, 10));
+    index.set('a', new DOMRect(40, 0, 10, 10));
+
+    expect(index.search(new DOMRect(0, 0, 100, 100))).toEqual(['a', 'b']);
+    expect(index.getRect('a')?.x).toBe(40);
+    expect(index.search(new DOMRect(0, 0, 15, 15))).toEqual([]);
+  });
+
+  it('finds items too large to bucket', () => {
+    const index = new SpatialIndex<string>(10);
+    index.set('huge', new DOMRect(0, 0, 1000, 1000));
+    index.set('small', new DOMRect(900, 900, 5, 5));
+
+    expect(index.search(new DOMRect(500, 500, 1, 1))).toEqual(['huge']);
+    expect(index.search(new DOMRect(901, 901, 1, 1))).toEqual(['huge', 'small']);
+  });
+
+  it('handles rects at negative coordinates', () => {
+    const index = new SpatialIndex<string>(100);
+    index.set('above', new DOMRect(-50, -250, 40, 40));
+
+    expect(index.search(new DOMRect(-30, -230, 1, 1))).toEqual(['above']);
+    expect(index.search(new DOMRect(30, 30, 1, 1))).toEqual([]);
+  });
+
+  it('forgets deleted and cleared items', () => {
+    const index = new SpatialIndex<string>(100);
+    index.set('a', new DOMRect(0, 0, 10, 10));
+    index.set('b', new DOMRect(0, 0, 10, 10));
+
+    index.delete('a');
+    expect(index.search(new DOMRect(0, 0, 10, 10))).toEqual(['b']);
+    expect(index.getRect('a')).toBeUndefined();
+
+    index.clear();
+    expect(index.size).toBe(0);
+    expect(index.search(new DOMRect(0, 0, 10, 10))).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Uniform grid spatial index for rects
+ * Rects are bucketed into square cells so a search only visits the cells
+ * it overlaps instead of every rect
+ */
+import { rectsIntersect } from './BoundsCache.js';
+
+// Rects covering more cells than this are checked on every search instead
+const MAX_CELLS_PER_ITEM = 64;
+
+interface Entry {
+  rect: DOMRect;
+  keys: number[];
+  /** Insertion order, searches return items in this order */
+  order: number;
+}
+
+export class SpatialIndex<T> {
+  private _cellSize: number;
+  private _cells = new Map<number, Set<T>>();
+  private _entries = new Map<T, Entry>();
+  private _large = new Set<T>();
+  private _order = 0;
+
+  constructor(cellSize = 128) {
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Number of indexed items
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Add an item, or move it to a new rect
+   */
+  set(item: T, rect: DOMRect): void {
+    const order = this._entries.get(item)?.order ?? this._order++;
+    this.delete(item);
+
+    const keys: number[] = [];
+    const range = this._getCellRange(rect);
+    const cells = (range.x1 - range.x0 + 1) * (range.y1 - range.y0 + 1);
+
+    if (cells > MAX_CELLS_PER_ITEM) {
+      this._large.add(item);
+    } else {
+      for (let cx = range.x0; cx <= range.x1; cx++) {
+        for (let cy = range.y0; cy <= range.y1; cy++) {
+          const key = cellKey(cx, cy);
+          let cell = this._cells.get(key);
+          if (!cell) {
+            cell = new Set();
+            this._cells.set(key, cell);
+          }
+          cell.add(item);
+          keys.push(key);
+        }
+      }
+    }
+
+    this._entries.set(item, { rect, keys, order });
+  }
+
+  /**
+   * Indexed rect of an item
+   */
+  getRect(item: T): DOMRect | undefined {
+    return this._entries.get(item)?.rect;
+  }
+
+  /**
+   * Remove an item
+   */
+  delete(item: T): void {
+    const entry = this._entries.get(item);
+    if (!entry) return;
+
+    for (const key of entry.keys) {
+      const cell = this._cells.get(key);
+      cell?.delete(item);
+      if (cell?.size === 0) {
+        this._cells.delete(key);
+      }
+    }
+    this._large.delete(item);
+    this._entries.delete(item);
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    this._cells.clear();
+    this._entries.clear();
+    this._large.clear();
+    this._order = 0;
+  }
+
+  /**
+   * Items whose rect intersects the area, in insertion order
+   */
+  search(area: DOMRect): T[] {
+    const found = new Set<T>();
+    const range = this._getCellRange(area);
+    const cells = (range.x1 - range.x0 + 1) * (range.y1 - range.y0 + 1);
+
+    // Big areas are cheaper to check item by item
+    if (cells > this._entries.size) {
+      for (const [item, entry] of this._entries) {
+        if (rectsIntersect(entry.rect, area)) found.add(item);
+      }
+    } else {
+      for (const item of this._large) {
+        if (rectsIntersect(this._entries.get(item)!.rect, area)) found.add(item);
+      }
+
+      for (let cx = range.x0; cx <= range.x1; cx++) {
+        for (let cy = range.y0; cy <= range.y1; cy++) {
+          const cell = this._cells.get(cellKey(cx, cy));
+          if (!cell) continue;
+
+          for (const item of cell) {
+            if (!found.has(item) && rectsIntersect(this._entries.get(item)!.rect, area)) {
+              found.add(item);
+            }
+          }
+        }
+      }
+    }
+
+    return [...found].sort(
+      (a, b) => this._entries.get(a)!.order - this._entries.get(b)!.order
+    );
+  }
+
+  private _getCellRange(rect: DOMRect): { x0: number; y0: number; x1: number; y1: number } {
+    const size = this._cellSize;
+    return {
+      x0: Math.floor(rect.left / size),
+      y0: Math.floor(rect.top / size),
+      x1: Math.floor(rect.right / size),
+      y1: Math.floor(rect.bottom / size),
+    };
+  }
+}
+
+/**
+ * Numeric key for a cell, valid for cell coordinates within ±32767
+ */
+function cellKey(cx: number, cy: number): number {
+  return (cx + 0x8000) * 0x10000 + (cy + 0x8000);
+}
@@ -2,4 +2,7 @@ export { ObjectPool, pointPool, rectPool, acquirePoint, acquireRect } from './Ob
 export { EventEmitter, type EventCallback } from './EventEmitter.js';
 export { BoundsCache, boundsCache, pointInRect, rectsIntersect, rectCenter, distance } from './BoundsCache.js';
 export { RAFThrottle, rafThrottle } from './RAFThrottle.js';
+export { SpatialIndex } from './SpatialIndex.js';
+export { getLayoutRows, getInsertionIndex, swapElements, type LayoutRow } from './Layout.js';
 export { SnapDataTransfer } from './DataTransfer.js';
+export { wrapCallbacks } from './Callbacks.js';